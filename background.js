@@ -76,6 +76,14 @@ class SolanamBackground {
         contexts: ['image']
       })
 
+      // Preferences
+      chrome.contextMenus.create({
+        id: 'solanam-settings',
+        parentId: 'solanam-main',
+        title: '⚙️ Preferences',
+        contexts: ['image']
+      })
+
       // About SolanaM
       chrome.contextMenus.create({
         id: 'solanam-about',
@@ -93,6 +101,8 @@ class SolanamBackground {
       } else if (info.menuItemId.startsWith('export-')) {
         const format = info.menuItemId.replace('export-', '')
         await this.exportImage(info, tab, format)
+      } else if (info.menuItemId === 'solanam-settings') {
+        await this.openSettings()
       } else if (info.menuItemId === 'solanam-about') {
         await this.showAbout()
       }
@@ -117,12 +127,7 @@ class SolanamBackground {
         })
 
         // Show notification
-        chrome.notifications.create({
-          type: 'basic',
-          iconUrl: 'icons/icon-48.png',
-          title: 'SolanaM Image Studio',
-          message: 'Image imported successfully! Open the extension to edit.'
-        })
+        await this.notify('Image imported successfully! Open the extension to edit.')
       }
     } catch (error) {
       console.error('Import error:', error)
@@ -139,18 +144,40 @@ class SolanamBackground {
       })
 
       if (response && response.success) {
-        chrome.notifications.create({
-          type: 'basic',
-          iconUrl: 'icons/icon-48.png',
-          title: 'SolanaM Image Studio',
-          message: `Image exported as ${format.toUpperCase()} successfully!`
-        })
+        await this.notify(`Image exported as ${format.toUpperCase()} successfully!`)
       }
     } catch (error) {
       console.error('Export error:', error)
     }
   }
 
+  // Respects the notification level chosen in the popup's preferences
+  async notify(message) {
+    const { preferences } = await chrome.storage.sync.get('preferences')
+    if (preferences && preferences.notifications && preferences.notifications !== 'all') return
+
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon-48.png',
+      title: 'SolanaM Image Studio',
+      message
+    })
+  }
+
+  async openSettings() {
+    // The popup checks this flag on load and opens its settings drawer
+    await chrome.storage.local.set({ openSettings: true })
+
+    // openPopup is not available in every Chrome version; the flag waits for the next open
+    if (chrome.action.openPopup) {
+      try {
+        await chrome.action.openPopup()
+      } catch (error) {
+        console.error('Could not open popup:', error)
+      }
+    }
+  }
+
   async showAbout() {
     // Open SolanaM ecosystem page or show info
     chrome.tabs.create({
@@ -186,8 +213,9 @@ class SolanamBackground {
         break
 
       case 'openSettings':
-        // Handle settings requests
-        sendResponse({ success: true })
+        this.openSettings()
+          .then(() => sendResponse({ success: true }))
+          .catch(error => sendResponse({ success: false, error: error.message }))
         break
 
       default:
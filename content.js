@@ -51,6 +51,7 @@ class SolanamContentScript {
             
             resolve({
               src: imageUrl,
+              name: this.getFileName(imageUrl),
               dataUrl: dataUrl,
               width: img.naturalWidth,
               height: img.naturalHeight,
@@ -74,6 +75,7 @@ class SolanamContentScript {
 
   async exportImageDirect(imageUrl, format) {
     try {
+      const template = await this.getFilenameTemplate()
       const img = new Image()
       img.crossOrigin = 'anonymous'
       
@@ -102,7 +104,14 @@ class SolanamContentScript {
               const url = URL.createObjectURL(blob)
               const link = document.createElement('a')
               link.href = url
-              link.download = `solanam-export-${Date.now()}.${this.getExtension(format)}`
+              link.download = this.renderFilename(template, {
+                name: this.getFileName(imageUrl),
+                width: canvas.width,
+                height: canvas.height,
+                format,
+                extension: this.getExtension(format),
+                quality: quality ? quality * 100 : 100
+              })
               
               // Trigger download
               document.body.appendChild(link)
@@ -129,6 +138,62 @@ class SolanamContentScript {
     }
   }
 
+  // Shares the popup's template through the synced preferences
+  async getFilenameTemplate() {
+    try {
+      const { preferences } = await chrome.storage.sync.get('preferences')
+      return (preferences && preferences.filenameTemplate) || '{name}'
+    } catch (error) {
+      return '{name}'
+    }
+  }
+
+  // Page images are re-encoded as PNG, so the name follows suit
+  getFileName(imageUrl) {
+    let baseName = ''
+    try {
+      const path = new URL(imageUrl).pathname
+      baseName = decodeURIComponent(path.split('/').pop() || '').replace(/\.[^.]+$/, '')
+    } catch (error) {
+      // data: and malformed URLs have no usable name
+    }
+    return `${baseName.replace(/[^\w.-]+/g, '-').slice(0, 80) || 'page-image'}.png`
+  }
+
+  // Mirrors FilenameTemplate in src/utils; keep the two in step
+  renderFilename(template, context) {
+    const pad = (value) => value.toString().padStart(2, '0')
+    const date = new Date()
+    const values = {
+      name: context.name.replace(/\.[a-z0-9]{1,5}$/i, '') || 'image',
+      width: Math.round(context.width).toString(),
+      height: Math.round(context.height).toString(),
+      format: context.format,
+      quality: Math.round(context.quality).toString(),
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      recipe: '',
+      index: '1'
+    }
+
+    const baseName = template.replace(/([-_. ]*)\{(\w+)\}/g, (token, separator, key) => {
+      if (!(key in values)) return token
+      return values[key] ? separator + values[key] : ''
+    })
+    return `${this.sanitizeFilename(baseName)}.${context.extension}`
+  }
+
+  sanitizeFilename(name) {
+    let safe = name
+      .replace(/[<>:"/\\|?*{}\u0000-\u001f]/g, '-')
+      .replace(/\s+/g, ' ')
+      .replace(/^[-_. ]+/, '')
+      .slice(0, 150)
+      .replace(/[-_. ]+$/, '')
+
+    if (/^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i.test(safe)) safe = `_${safe}`
+    return safe || 'image'
+  }
+
   getMimeType(format) {
     const mimeTypes = {
       'jpeg': 'image/jpeg',
@@ -149,38 +214,47 @@ class SolanamContentScript {
     return extensions[format] || 'png'
   }
 
+  // Every loaded image; the popup filters them by size itself
   async extractPageImages() {
     const images = []
+    const seen = new Set()
     const imgElements = document.querySelectorAll('img')
     
     for (const img of imgElements) {
-      if (img.src && img.naturalWidth > 100 && img.naturalHeight > 100) {
-        try {
-          const canvas = document.createElement('canvas')
-          const ctx = canvas.getContext('2d')
-          
-          canvas.width = img.naturalWidth
-          canvas.height = img.naturalHeight
-          
-          ctx.drawImage(img, 0, 0)
-          
-          const dataUrl = canvas.toDataURL('image/png')
-          
-          images.push({
-            src: img.src,
-            alt: img.alt || 'Image',
-            width: img.naturalWidth,
-            height: img.naturalHeight,
-            dataUrl
-          })
-        } catch (error) {
-          console.warn('Could not extract image:', error)
-        }
-      }
+      const src = img.currentSrc || img.src
+      if (!src || seen.has(src) || !img.complete) continue
+      if (!img.naturalWidth || !img.naturalHeight) continue
+      seen.add(src)
+
+      images.push({
+        src,
+        alt: img.alt || '',
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+        thumbnail: this.createThumbnail(img)
+      })
     }
     
     return images
   }
+
+  // Small previews keep the message light; full pixels are fetched per image on import
+  createThumbnail(img, maxSize = 160) {
+    try {
+      const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight))
+      const canvas = document.createElement('canvas')
+      const ctx = canvas.getContext('2d')
+
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale))
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale))
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+      return canvas.toDataURL('image/webp', 0.8)
+    } catch (error) {
+      // Cross-origin images without CORS headers taint the canvas
+      return null
+    }
+  }
 }
 
 // Initialize the content script
@@ -1,8 +1,29 @@
-import { FilterManager } from '../utils/FilterManager'
+import { FilterManager, FilterOptions, AdjustmentKey, FilterView } from '../utils/FilterManager'
 import { FileHandler } from '../utils/FileHandler'
-import { CompressionManager, CompressionResult } from '../utils/CompressionManager'
+import { CompressionManager, CompressionResult, TargetSizeError, TargetSizeResult } from '../utils/CompressionManager'
 import { ToastManager } from '../utils/ToastManager'
-import { CropManager } from '../utils/CropManager'
+import { CropManager, CropUnit, PixelRect, CROP_PRESETS, CROP_RATIOS } from '../utils/CropManager'
+import { RenderPipeline, RenderSource } from '../utils/RenderPipeline'
+import { EditStack, EditState, EditChanges } from '../utils/EditStack'
+import { ResizeManager, ResizeOptions, ResizeMode } from '../utils/ResizeManager'
+import { BatchProcessor, BatchItem, BatchSettings } from '../utils/BatchProcessor'
+import { PageImageSource, PageImage, PageImageData } from '../utils/PageImageSource'
+import { ImageMetadata } from '../utils/MetadataReader'
+import { MetadataWriter, MetadataMode, MetadataSelection } from '../utils/MetadataWriter'
+import { LoadedImage } from '../utils/FileHandler'
+import { ShortcutManager } from '../utils/ShortcutManager'
+import { RecipeManager, Recipe } from '../utils/RecipeManager'
+import { PreferencesManager, Preferences, ThemePreference, NotificationLevel } from '../utils/PreferencesManager'
+import { FilenameTemplate, FILENAME_TOKENS } from '../utils/FilenameTemplate'
+import { CompareViewer, CompareMode } from '../utils/CompareViewer'
+import { HistogramAnalyzer, HistogramChannel, HistogramData } from '../utils/HistogramAnalyzer'
+import { ToneManager, ToneChannel, LevelsChannel, CurvePoint } from '../utils/ToneManager'
+import { CurveEditor } from '../utils/CurveEditor'
+import { LutManager, CubeLut } from '../utils/LutManager'
+import { CustomFilterManager, CustomFilter } from '../utils/CustomFilterManager'
+import { TransformManager, TransformChange, QuarterTurn } from '../utils/TransformManager'
+import { RenderWorkerClient } from '../utils/RenderWorkerClient'
+import { RenderCanvas, canvasToBlob, toDomCanvas } from '../utils/canvas'
 
 export class ImageProcessor {
   private filterManager: FilterManager
@@ -10,14 +31,65 @@ export class ImageProcessor {
   private compressionManager: CompressionManager
   private toastManager: ToastManager
   private cropManager: CropManager
-  private currentImage: HTMLImageElement | null = null
+  private transformManager: TransformManager
+  private renderPipeline: RenderPipeline
+  private editStack: EditStack
+  private shortcutManager: ShortcutManager
+  private recipeManager: RecipeManager
+  private lutManager: LutManager
+  private customFilterManager: CustomFilterManager
+  private recipes: Recipe[] = []
+  private preferencesManager: PreferencesManager
+  private filenameTemplate: FilenameTemplate
+  private compareViewer: CompareViewer
+  // 'edit' shows the live preview with the crop overlay; the others compare against the encoded file
+  private previewMode: 'edit' | CompareMode = 'edit'
+  private histogramAnalyzer: HistogramAnalyzer
+  private histogramChannel: HistogramChannel = 'rgb'
+  private histogram: HistogramData | null = null
+  private toneManager: ToneManager
+  private toneChannel: ToneChannel = 'rgb'
+  private curveEditor: CurveEditor | null = null
+  // Name of the last applied recipe, for the {recipe} filename token
+  private activeRecipe: string | null = null
+  // Id of the shortcut waiting for a new key combination
+  private recordingShortcut: string | null = null
+  // Set while held crop nudges merge into one history step
+  private cropNudged = false
+  private batchProcessor: BatchProcessor
+  private pageImageSource: PageImageSource
+  private pageImages: PageImage[] = []
+  private selectedPageImages: Set<string> = new Set()
+  // Untransformed pixels; the preview element may be showing a rotated copy
+  private currentImage: RenderSource | null = null
+  private sourceUrl = ''
+  private previewKey = ''
+  private previewSource: RenderCanvas | null = null
+  private previewFrame = 0
+  private thumbnailSource: RenderCanvas | null = null
+  private readonly thumbnailSize = 120
+  private customFilters: CustomFilter[] = []
+  // Until the LUTs are read, a custom filter can't be told apart from one whose LUT was deleted
+  private lutsLoaded = false
+  private editingCustomFilterId: string | null = null
   private currentFile: File | null = null
+  private currentMetadata: LoadedImage | null = null
+  private metadataWriter = new MetadataWriter()
   private canvas: HTMLCanvasElement
   private ctx: CanvasRenderingContext2D
   private compressionResult: CompressionResult | null = null
+  // Set while the target size can't be met, so the failure is announced once rather than per input
+  private targetSizeMissed = false
+  private outputSize = { width: 0, height: 0 }
   private activeSections: Set<string> = new Set()
   private isDarkMode: boolean = false
-  private isCropEnabled: boolean = false
+  private compressionTimer: number | undefined
+  private renderWorker: RenderWorkerClient
+  // Separate workers so a batch or an icon pack doesn't cancel the preview's jobs
+  private batchWorker: RenderWorkerClient
+  private iconWorker: RenderWorkerClient
+  // The unfiltered render for the before/after view, produced alongside the output
+  private compareBefore: HTMLCanvasElement | null = null
 
   constructor() {
     this.filterManager = new FilterManager()
@@ -25,6 +97,24 @@ export class ImageProcessor {
     this.compressionManager = new CompressionManager()
     this.toastManager = new ToastManager()
     this.cropManager = new CropManager()
+    const resizeManager = new ResizeManager()
+    this.transformManager = new TransformManager()
+    this.renderPipeline = new RenderPipeline(this.filterManager, resizeManager, this.transformManager)
+    this.renderWorker = new RenderWorkerClient()
+    this.batchWorker = new RenderWorkerClient()
+    this.iconWorker = new RenderWorkerClient()
+    this.editStack = new EditStack()
+    this.shortcutManager = new ShortcutManager()
+    this.recipeManager = new RecipeManager()
+    this.lutManager = new LutManager()
+    this.customFilterManager = new CustomFilterManager()
+    this.preferencesManager = new PreferencesManager()
+    this.filenameTemplate = new FilenameTemplate()
+    this.compareViewer = new CompareViewer()
+    this.histogramAnalyzer = new HistogramAnalyzer()
+    this.toneManager = new ToneManager()
+    this.batchProcessor = new BatchProcessor(this.fileHandler, this.batchWorker, this.compressionManager)
+    this.pageImageSource = new PageImageSource()
     this.canvas = document.createElement('canvas')
     this.ctx = this.canvas.getContext('2d')!
     
@@ -35,9 +125,10 @@ export class ImageProcessor {
     this.checkForContextImage()
   }
 
+  // Same cached theme app.ts paints with; the stored preference takes over once loaded
   private initializeTheme(): void {
-    const savedTheme = localStorage.getItem('theme')
-    this.isDarkMode = savedTheme === 'dark' || (!savedTheme && window.matchMedia('(prefers-color-scheme: dark)').matches)
+    const cachedTheme = localStorage.getItem('solanam-theme')
+    this.isDarkMode = cachedTheme === 'dark' || (!cachedTheme && window.matchMedia('(prefers-color-scheme: dark)').matches)
     this.applyTheme()
   }
 
@@ -76,17 +167,28 @@ export class ImageProcessor {
       // Create a fake file object for the context image
       const response = await fetch(imageData.dataUrl)
       const blob = await response.blob()
-      const file = new File([blob], 'context-image.png', { type: 'image/png' })
+      const file = new File([blob], imageData.name || 'context-image.png', { type: 'image/png' })
 
       // Load the image
       previewImage.src = imageData.dataUrl
       
       previewImage.onload = () => {
-        this.currentImage = previewImage
+        // Transforms swap the preview's pixels, so only the first load sets up the image
+        previewImage.onload = null
+        this.currentImage = this.canvas
+        this.sourceUrl = previewImage.src
+        this.previewKey = ''
+        this.previewSource = null
+        this.thumbnailSource = null
         this.currentFile = file
+        this.currentMetadata = null
         this.canvas.width = previewImage.naturalWidth
         this.canvas.height = previewImage.naturalHeight
         this.ctx.drawImage(previewImage, 0, 0)
+        this.renderWorker.setSource(this.canvas).catch(error => {
+          console.error('Failed to prepare image for processing:', error)
+          this.toastManager.error('Failed to prepare image for processing')
+        })
         
         // Display image info
         imageInfo.innerHTML = `
@@ -114,16 +216,10 @@ export class ImageProcessor {
         uploadSection.classList.add('collapsed')
         imageSection.style.display = 'block'
         
-        // Auto-expand compression section
-        this.activeSections.add('compression')
-        const compressionHeader = imageSection.querySelector('[data-section="compression"]') as HTMLElement
-        const compressionContent = compressionHeader.nextElementSibling as HTMLElement
-        const compressionToggle = compressionHeader.querySelector('.tool-toggle svg') as SVGElement
-        compressionHeader.classList.add('active')
-        compressionContent.classList.add('expanded')
-        compressionToggle.innerHTML = '<path stroke-linecap="round" stroke-linejoin="round" d="m4.5 15.75 7.5-7.5 7.5 7.5"/>'
+        this.expandPreferredSections(imageSection)
+        this.renderCustomFilters(container)
         
-        this.updateCompression(container)
+        this.syncFromState(container, this.editStack.getState())
         this.toastManager.success('Image imported from webpage!')
       }
     } catch (error) {
@@ -142,10 +238,10 @@ export class ImageProcessor {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
 
-  private toggleTheme(): void {
+  private toggleTheme(container: HTMLElement): void {
     this.isDarkMode = !this.isDarkMode
-    localStorage.setItem('theme', this.isDarkMode ? 'dark' : 'light')
     this.applyTheme()
+    this.savePreferences(container, { theme: this.isDarkMode ? 'dark' : 'light' })
   }
 
   render(): HTMLElement {
@@ -220,6 +316,44 @@ export class ImageProcessor {
             </div>
           </div>
           
+          <div class="settings-section">
+            <h4>Preferences</h4>
+            <div class="preferences-grid">
+              <label class="preference-field">
+                <span>Theme</span>
+                <select id="prefTheme" class="control-input">
+                  <option value="system">Match system</option>
+                  <option value="light">Light</option>
+                  <option value="dark">Dark</option>
+                </select>
+              </label>
+              <label class="preference-field">
+                <span>Default format</span>
+                <select id="prefFormat" class="control-input"></select>
+              </label>
+              <label class="preference-field">
+                <span>Default quality (%)</span>
+                <input type="number" id="prefQuality" class="control-input" min="1" max="100" step="1">
+              </label>
+              <label class="preference-field">
+                <span>Max upload size (MB)</span>
+                <input type="number" id="prefMaxUpload" class="control-input" min="1" max="100" step="1">
+              </label>
+              <label class="preference-field">
+                <span>Notifications</span>
+                <select id="prefNotifications" class="control-input">
+                  <option value="all">All messages</option>
+                  <option value="errors">Errors only</option>
+                  <option value="off">Off</option>
+                </select>
+              </label>
+            </div>
+            <div class="preference-field">
+              <span>Open when an image loads</span>
+              <div class="preference-sections" id="prefSections"></div>
+            </div>
+          </div>
+          
           <div class="settings-section">
             <h4>Features</h4>
             <ul class="feature-list">
@@ -270,20 +404,9 @@ export class ImageProcessor {
           
           <div class="settings-section">
             <h4>Keyboard Shortcuts</h4>
-            <div class="shortcuts-grid">
-              <div class="shortcut-item">
-                <kbd>Ctrl</kbd> + <kbd>Alt</kbd> + <kbd>S</kbd>
-                <span>Open Extension</span>
-              </div>
-              <div class="shortcut-item">
-                <kbd>R</kbd>
-                <span>Reset All</span>
-              </div>
-              <div class="shortcut-item">
-                <kbd>D</kbd>
-                <span>Download</span>
-              </div>
-            </div>
+            <p class="settings-description">Shortcuts are ignored while a text field has focus. Click a key to change it.</p>
+            <div class="shortcuts-grid" id="shortcutsGrid"></div>
+            <button class="btn btn-secondary shortcuts-reset" id="shortcutsResetBtn">Reset shortcuts</button>
           </div>
           
           <div class="settings-section">
@@ -298,23 +421,73 @@ export class ImageProcessor {
       
       <div class="container">
         <div class="upload-section" id="uploadSection">
-          <div class="upload-area" id="uploadArea">
-            <div class="upload-icon">
-              <svg class="icon" viewBox="0 0 24 24">
-                <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5"/>
-              </svg>
+          <div class="source-tabs">
+            <button class="source-tab active" data-source="upload">Upload</button>
+            <button class="source-tab" data-source="page">From this page</button>
+          </div>
+
+          <div class="source-panel" data-panel="upload">
+            <div class="upload-area" id="uploadArea">
+              <div class="upload-icon">
+                <svg class="icon" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5"/>
+                </svg>
+              </div>
+              <div class="upload-text">Drop your images here</div>
+              <div class="upload-subtext">or click to browse • Max <span id="uploadLimit">10</span>MB • Several files start a batch</div>
+            </div>
+            <input type="file" id="fileInput" class="file-input" accept="image/*" multiple>
+          </div>
+
+          <div class="source-panel" data-panel="page" style="display: none;">
+            <div class="page-images-toolbar">
+              <label class="page-images-min" for="pageMinSize">
+                Min size
+                <input type="number" id="pageMinSize" class="control-input" min="0" step="10" value="100">
+                px
+              </label>
+              <button class="page-images-link" id="pageSelectAllBtn">Select all</button>
+              <button class="page-images-link" id="pageRefreshBtn">Refresh</button>
+            </div>
+            <div class="page-images-status" id="pageImagesStatus"></div>
+            <div class="page-images-grid" id="pageImagesGrid"></div>
+            <div class="page-images-actions">
+              <button class="btn btn-secondary" id="pageToBatchBtn" disabled>Add to Batch</button>
+              <button class="btn btn-primary" id="pageToEditorBtn" disabled>Open in Editor</button>
             </div>
-            <div class="upload-text">Drop your image here</div>
-            <div class="upload-subtext">or click to browse • Max 10MB</div>
           </div>
-          <input type="file" id="fileInput" class="file-input" accept="image/*">
         </div>
 
         <div id="imageSection" style="display: none;">
           <div class="image-preview" id="imagePreview">
-            <div class="preview-container">
+            <div class="preview-modes" id="previewModes">
+              <button class="preview-mode-btn active" data-mode="edit">Edit</button>
+              <button class="preview-mode-btn" data-mode="split">Split</button>
+              <button class="preview-mode-btn" data-mode="side">Side by side</button>
+            </div>
+            <div class="preview-container" id="previewContainer">
               <img id="previewImage" class="preview-image" alt="Preview">
             </div>
+            <div class="compare-view" id="compareView" style="display: none;">
+              <div class="compare-stage" id="compareStage">
+                <div class="compare-pane" data-side="before">
+                  <div class="compare-layer"></div>
+                  <span class="compare-label" id="compareBeforeLabel">Original</span>
+                </div>
+                <div class="compare-pane" data-side="after">
+                  <div class="compare-layer">
+                    <img class="compare-image" alt="Encoded output">
+                  </div>
+                  <span class="compare-label" id="compareAfterLabel">Output</span>
+                </div>
+                <div class="compare-divider"></div>
+              </div>
+              <div class="compare-toolbar">
+                <button class="compare-zoom-btn" data-zoom="out" title="Zoom out">−</button>
+                <button class="compare-zoom-value" id="compareZoomValue" title="Reset zoom">100%</button>
+                <button class="compare-zoom-btn" data-zoom="in" title="Zoom in">+</button>
+              </div>
+            </div>
             <div class="preview-actions">
               <button class="btn btn-secondary" id="newImageBtn">
                 <svg class="icon icon-sm" viewBox="0 0 24 24">
@@ -343,6 +516,40 @@ export class ImageProcessor {
             </div>
           </div>
 
+          <!-- Recipes Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="recipes">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0 1 11.186 0Z"/>
+                </svg>
+                <span>Recipes</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content">
+              <div class="tool-content-inner">
+                <div class="recipe-save">
+                  <input type="text" id="recipeName" class="control-input" placeholder="Recipe name" maxlength="60">
+                  <button class="btn btn-secondary" id="recipeSaveBtn">Save</button>
+                </div>
+                <ul class="recipe-list" id="recipeList">
+                  <li class="recipe-empty">No saved recipes</li>
+                </ul>
+                <div class="recipe-actions">
+                  <button class="btn btn-secondary" id="recipeImportBtn">Import JSON</button>
+                  <button class="btn btn-secondary" id="recipeExportBtn">Export JSON</button>
+                  <input type="file" id="recipeFileInput" class="file-input" accept="application/json,.json">
+                </div>
+                <p class="recipe-hint">Saves crop, rotation, adjustments, filter, resize, format and quality.</p>
+              </div>
+            </div>
+          </div>
+
           <!-- Quick Filters -->
           <div class="tool-section">
             <div class="tool-header" data-section="filters">
@@ -411,6 +618,37 @@ export class ImageProcessor {
                     Vivid
                   </button>
                 </div>
+                <div class="lut-controls">
+                  <div class="control-group" id="lutIntensityGroup" style="display: none;">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="m21 7.5-9-5.25L3 7.5m18 0-9 5.25m9-5.25v9l-9 5.25M3 7.5l9 5.25M3 7.5v9l9 5.25m0-9v9"/>
+                      </svg>
+                      LUT intensity
+                    </label>
+                    <input type="range" id="lutIntensity" class="control-slider" min="0" max="100" value="100">
+                    <div class="control-value">100%</div>
+                  </div>
+                  <div class="recipe-actions">
+                    <button class="btn btn-secondary" id="lutImportBtn">Import .cube LUT</button>
+                    <button class="btn btn-secondary" id="lutRemoveBtn" disabled>Delete LUT</button>
+                    <input type="file" id="lutFileInput" class="file-input" accept=".cube">
+                  </div>
+                  <p class="recipe-hint">3D LUTs up to 65 points per axis. Imported LUTs are kept for future sessions.</p>
+                </div>
+                <div class="custom-filters">
+                  <div class="tone-block-header">
+                    <span class="control-label">Custom filters</span>
+                  </div>
+                  <div class="recipe-save">
+                    <input type="text" id="customFilterName" class="control-input" placeholder="Filter name" maxlength="40">
+                    <button class="btn btn-secondary" id="customFilterSaveBtn">Save</button>
+                  </div>
+                  <ul class="custom-filter-list" id="customFilterList">
+                    <li class="recipe-empty">No custom filters</li>
+                  </ul>
+                  <p class="recipe-hint">Saves the current adjustments, levels, curves and base filter as one look.</p>
+                </div>
               </div>
             </div>
           </div>
@@ -425,6 +663,44 @@ export class ImageProcessor {
             </div>
           </div>
 
+          <!-- Transform Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="transform">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99"/>
+                </svg>
+                <span>Rotate &amp; Flip</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content">
+              <div class="tool-content-inner">
+                <div class="transform-buttons">
+                  <button class="transform-btn" data-transform="rotateLeft" title="Rotate 90° left">⟲ 90°</button>
+                  <button class="transform-btn" data-transform="rotateRight" title="Rotate 90° right">⟳ 90°</button>
+                  <button class="transform-btn" data-transform="flipHorizontal" title="Flip horizontally">⇋ Flip H</button>
+                  <button class="transform-btn" data-transform="flipVertical" title="Flip vertically">⇵ Flip V</button>
+                </div>
+                <div class="control-group">
+                  <label class="control-label">
+                    <svg class="icon icon-sm" viewBox="0 0 24 24">
+                      <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5h18M6 12.75l12-3.75"/>
+                    </svg>
+                    Straighten
+                  </label>
+                  <input type="range" id="straighten" class="control-slider" min="-45" max="45" step="0.5" value="0">
+                  <div class="control-value">0°</div>
+                </div>
+                <p class="transform-hint">Straightening crops away the empty corners.</p>
+              </div>
+            </div>
+          </div>
+
           <!-- Crop Section -->
           <div class="tool-section">
             <div class="tool-header" data-section="crop">
@@ -452,8 +728,45 @@ export class ImageProcessor {
                   <button class="btn btn-secondary" id="toggleCropBtn">Enable Crop</button>
                 </div>
 
+                <div class="crop-ratios">
+                  <button class="crop-ratio-btn active" data-ratio="free">Free</button>
+                  ${CROP_RATIOS.map(ratio => `<button class="crop-ratio-btn" data-ratio="${ratio.id}">${ratio.label}</button>`).join('')}
+                  <button class="crop-ratio-btn" data-ratio="custom">Custom</button>
+                </div>
+                <div class="crop-custom-ratio" id="cropCustomRatio" style="display: none;">
+                  <input type="number" id="cropRatioWidth" class="control-input" min="1" step="1" value="5" aria-label="Ratio width">
+                  <span>:</span>
+                  <input type="number" id="cropRatioHeight" class="control-input" min="1" step="1" value="4" aria-label="Ratio height">
+                </div>
+                <select id="cropPreset" class="control-input crop-preset">
+                  <option value="">Size preset…</option>
+                  ${CROP_PRESETS.map(preset => `<option value="${preset.id}">${preset.label} ${preset.width}×${preset.height}</option>`).join('')}
+                </select>
+
                 <div class="crop-controls" id="cropControls" style="display: none;">
-                  <div class="controls-grid">
+                  <div class="crop-units">
+                    <button class="crop-unit-btn active" data-unit="percent">%</button>
+                    <button class="crop-unit-btn" data-unit="pixels">px</button>
+                  </div>
+                  <div class="controls-grid crop-pixel-fields" id="cropPixelFields" style="display: none;">
+                    <div class="control-group">
+                      <label class="control-label" for="cropPixelX">X (px)</label>
+                      <input type="number" id="cropPixelX" class="control-input crop-pixel-input" min="0" step="1">
+                    </div>
+                    <div class="control-group">
+                      <label class="control-label" for="cropPixelY">Y (px)</label>
+                      <input type="number" id="cropPixelY" class="control-input crop-pixel-input" min="0" step="1">
+                    </div>
+                    <div class="control-group">
+                      <label class="control-label" for="cropPixelWidth">Width (px)</label>
+                      <input type="number" id="cropPixelWidth" class="control-input crop-pixel-input" min="1" step="1">
+                    </div>
+                    <div class="control-group">
+                      <label class="control-label" for="cropPixelHeight">Height (px)</label>
+                      <input type="number" id="cropPixelHeight" class="control-input crop-pixel-input" min="1" step="1">
+                    </div>
+                  </div>
+                  <div class="controls-grid" id="cropPercentFields">
                     <div class="control-group">
                       <label class="control-label">
                         <svg class="icon icon-sm" viewBox="0 0 24 24">
@@ -461,7 +774,7 @@ export class ImageProcessor {
                         </svg>
                         Left
                       </label>
-                      <input type="range" id="cropLeft" class="control-slider" min="0" max="50" value="0">
+                      <input type="range" id="cropLeft" class="control-slider" min="0" max="90" value="0">
                       <div class="control-value">0%</div>
                     </div>
                     <div class="control-group">
@@ -471,7 +784,7 @@ export class ImageProcessor {
                         </svg>
                         Top
                       </label>
-                      <input type="range" id="cropTop" class="control-slider" min="0" max="50" value="0">
+                      <input type="range" id="cropTop" class="control-slider" min="0" max="90" value="0">
                       <div class="control-value">0%</div>
                     </div>
                     <div class="control-group">
@@ -500,6 +813,61 @@ export class ImageProcessor {
             </div>
           </div>
 
+          <!-- Resize Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="resize">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15"/>
+                </svg>
+                <span>Resize</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content" id="resizeContent">
+              <div class="tool-content-inner">
+                <div class="resize-modes">
+                  <button class="resize-mode-btn active" data-mode="none">Original</button>
+                  <button class="resize-mode-btn" data-mode="exact">Exact</button>
+                  <button class="resize-mode-btn" data-mode="fit">Fit</button>
+                  <button class="resize-mode-btn" data-mode="fill">Fill</button>
+                  <button class="resize-mode-btn" data-mode="percent">Scale %</button>
+                  <button class="resize-mode-btn" data-mode="longEdge">Long Edge</button>
+                </div>
+
+                <div class="controls-grid resize-fields">
+                  <div class="control-group" data-resize-field="width">
+                    <label class="control-label" for="resizeWidth">Width (px)</label>
+                    <input type="number" id="resizeWidth" class="control-input" min="1" max="16384" step="1">
+                  </div>
+                  <div class="control-group" data-resize-field="height">
+                    <label class="control-label" for="resizeHeight">Height (px)</label>
+                    <input type="number" id="resizeHeight" class="control-input" min="1" max="16384" step="1">
+                  </div>
+                  <div class="control-group" data-resize-field="percent">
+                    <label class="control-label" for="resizePercent">Scale (%)</label>
+                    <input type="number" id="resizePercent" class="control-input" min="1" max="400" step="1" value="100">
+                  </div>
+                  <div class="control-group" data-resize-field="longEdge">
+                    <label class="control-label" for="resizeLongEdge">Long Edge (px)</label>
+                    <input type="number" id="resizeLongEdge" class="control-input" min="1" max="16384" step="1" value="2048">
+                  </div>
+                </div>
+
+                <label class="checkbox-label" data-resize-field="maintainAspectRatio">
+                  <input type="checkbox" id="maintainAspectRatio" checked>
+                  Keep aspect ratio
+                </label>
+
+                <div class="resize-output" id="resizeOutput"></div>
+              </div>
+            </div>
+          </div>
+
           <!-- Adjustments Section -->
           <div class="tool-section">
             <div class="tool-header" data-section="adjustments">
@@ -517,7 +885,18 @@ export class ImageProcessor {
             </div>
             <div class="tool-content" id="adjustmentsContent">
               <div class="tool-content-inner">
+                <div class="adjustment-group-title">Light</div>
                 <div class="controls-grid">
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M12 18v-5.25m0 0a6.01 6.01 0 0 0 1.5-.189m-1.5.189a6.01 6.01 0 0 1-1.5-.189m3.75 7.478a12.06 12.06 0 0 1-4.5 0m3.75 2.383a14.406 14.406 0 0 1-3 0M14.25 18v-.192c0-.983.658-1.823 1.508-2.316a7.5 7.5 0 1 0-7.517 0c.85.493 1.509 1.333 1.509 2.316V18"/>
+                      </svg>
+                      Exposure
+                    </label>
+                    <input type="range" id="exposure" class="control-slider" min="-3" max="3" step="0.1" value="0">
+                    <div class="control-value">0.0 EV</div>
+                  </div>
                   <div class="control-group">
                     <label class="control-label">
                       <svg class="icon icon-sm" viewBox="0 0 24 24">
@@ -538,6 +917,49 @@ export class ImageProcessor {
                     <input type="range" id="contrast" class="control-slider" min="0" max="200" value="100">
                     <div class="control-value">100%</div>
                   </div>
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09Z"/>
+                      </svg>
+                      Highlights
+                    </label>
+                    <input type="range" id="highlights" class="control-slider" min="-100" max="100" value="0">
+                    <div class="control-value">0</div>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M21.752 15.002A9.72 9.72 0 0 1 18 15.75c-5.385 0-9.75-4.365-9.75-9.75 0-1.33.266-2.597.748-3.752A9.753 9.753 0 0 0 3 11.25C3 16.635 7.365 21 12.75 21a9.753 9.753 0 0 0 9.002-5.998Z"/>
+                      </svg>
+                      Shadows
+                    </label>
+                    <input type="range" id="shadows" class="control-slider" min="-100" max="100" value="0">
+                    <div class="control-value">0</div>
+                  </div>
+                </div>
+                <div class="adjustment-group-title">Color</div>
+                <div class="controls-grid">
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="m15 11.25 1.5 1.5.75-.75V8.758l2.276-.61a3 3 0 1 0-3.675-3.675l-.61 2.277H12l-.75.75 1.5 1.5M15 11.25l-8.47 8.47c-.34.34-.8.53-1.28.53s-.94.19-1.28.53l-.97.97-.75-.75.97-.97c.34-.34.53-.8.53-1.28s.19-.94.53-1.28L12.75 9M15 11.25 12.75 9"/>
+                      </svg>
+                      Temperature
+                    </label>
+                    <input type="range" id="temperature" class="control-slider" min="-100" max="100" value="0">
+                    <div class="control-value">0</div>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M4.098 19.902a3.75 3.75 0 0 0 5.304 0l6.401-6.402M6.75 21A3.75 3.75 0 0 1 3 17.25V4.125C3 3.504 3.504 3 4.125 3h5.25c.621 0 1.125.504 1.125 1.125v4.072M6.75 21a3.75 3.75 0 0 0 3.75-3.75V8.197M6.75 21h13.125c.621 0 1.125-.504 1.125-1.125v-5.25c0-.621-.504-1.125-1.125-1.125h-4.072M10.5 8.197l2.88-2.88c.438-.439 1.15-.439 1.59 0l3.712 3.713c.44.44.44 1.152 0 1.59l-2.879 2.88M6.75 17.25h.008v.008H6.75v-.008Z"/>
+                      </svg>
+                      Tint
+                    </label>
+                    <input type="range" id="tint" class="control-slider" min="-100" max="100" value="0">
+                    <div class="control-value">0</div>
+                  </div>
                   <div class="control-group">
                     <label class="control-label">
                       <svg class="icon icon-sm" viewBox="0 0 24 24">
@@ -548,6 +970,39 @@ export class ImageProcessor {
                     <input type="range" id="saturation" class="control-slider" min="0" max="200" value="100">
                     <div class="control-value">100%</div>
                   </div>
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M9.53 16.122a3 3 0 0 0-5.78 1.128 2.25 2.25 0 0 1-2.4 2.245 4.5 4.5 0 0 0 8.4-2.245c0-.399-.078-.78-.22-1.128Zm0 0a15.998 15.998 0 0 0 3.388-1.62m-5.043-.025a15.994 15.994 0 0 1 1.622-3.395m3.42 3.42a15.995 15.995 0 0 0 4.764-4.648l3.876-5.814a1.151 1.151 0 0 0-1.597-1.597L14.146 6.32a15.996 15.996 0 0 0-4.649 4.763m3.42 3.42a6.776 6.776 0 0 0-3.42-3.42"/>
+                      </svg>
+                      Vibrance
+                    </label>
+                    <input type="range" id="vibrance" class="control-slider" min="-100" max="100" value="0">
+                    <div class="control-value">0</div>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99"/>
+                      </svg>
+                      Hue
+                    </label>
+                    <input type="range" id="hue" class="control-slider" min="-180" max="180" value="0">
+                    <div class="control-value">0°</div>
+                  </div>
+                </div>
+                <div class="adjustment-group-title">Effects</div>
+                <div class="controls-grid">
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M7.5 3.75H6A2.25 2.25 0 0 0 3.75 6v1.5M16.5 3.75H18A2.25 2.25 0 0 1 20.25 6v1.5m0 9V18A2.25 2.25 0 0 1 18 20.25h-1.5m-9 0H6A2.25 2.25 0 0 1 3.75 18v-1.5M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z"/>
+                      </svg>
+                      Vignette
+                    </label>
+                    <input type="range" id="vignette" class="control-slider" min="-100" max="100" value="0">
+                    <div class="control-value">0</div>
+                  </div>
                   <div class="control-group">
                     <label class="control-label">
                       <svg class="icon icon-sm" viewBox="0 0 24 24">
@@ -559,6 +1014,120 @@ export class ImageProcessor {
                     <div class="control-value">0px</div>
                   </div>
                 </div>
+                <div class="adjustment-group-title">Detail</div>
+                <div class="controls-grid">
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607ZM10.5 7.5v6m3-3h-6"/>
+                      </svg>
+                      Sharpen
+                    </label>
+                    <input type="range" id="sharpenAmount" class="control-slider" min="0" max="200" value="0">
+                    <div class="control-value">0%</div>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label">
+                      <svg class="icon icon-sm" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15"/>
+                      </svg>
+                      Sharpen radius
+                    </label>
+                    <input type="range" id="sharpenRadius" class="control-slider" min="1" max="5" step="0.1" value="1">
+                    <div class="control-value">1.0px</div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <!-- Levels & Curves Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="tone">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M2.25 18 9 11.25l4.306 4.306a11.95 11.95 0 0 1 5.814-5.518l2.74-1.22m0 0-5.94-2.281m5.94 2.28-2.28 5.941"/>
+                </svg>
+                <span>Levels & Curves</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content" id="toneContent">
+              <div class="tool-content-inner">
+                <div class="tone-channels">
+                  <button class="tone-channel-btn active" data-channel="rgb">RGB</button>
+                  <button class="tone-channel-btn" data-channel="red">Red</button>
+                  <button class="tone-channel-btn" data-channel="green">Green</button>
+                  <button class="tone-channel-btn" data-channel="blue">Blue</button>
+                </div>
+
+                <div class="tone-block">
+                  <div class="tone-block-header">
+                    <span class="control-label">Levels</span>
+                    <button class="tone-reset-btn" data-reset="levels">Reset</button>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label" for="levelsBlack">Black point</label>
+                    <input type="range" id="levelsBlack" class="control-slider tone-slider" min="0" max="254" value="0">
+                    <div class="control-value">0</div>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label" for="levelsGamma">Gamma</label>
+                    <input type="range" id="levelsGamma" class="control-slider tone-slider" min="-100" max="100" value="0">
+                    <div class="control-value">1.00</div>
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label" for="levelsWhite">White point</label>
+                    <input type="range" id="levelsWhite" class="control-slider tone-slider" min="1" max="255" value="255">
+                    <div class="control-value">255</div>
+                  </div>
+                </div>
+
+                <div class="tone-block">
+                  <div class="tone-block-header">
+                    <span class="control-label">Curves</span>
+                    <button class="tone-reset-btn" data-reset="curves">Reset</button>
+                  </div>
+                  <canvas id="curveCanvas" class="curve-canvas" width="256" height="256"></canvas>
+                  <div class="curve-hint">Click to add a point, drag to shape, double-click to remove</div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <!-- Histogram Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="histogram">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 0 1 3 19.875v-6.75ZM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V8.625ZM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V4.125Z"/>
+                </svg>
+                <span>Histogram</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content" id="histogramContent">
+              <div class="tool-content-inner">
+                <div class="histogram-channels">
+                  <button class="histogram-channel-btn active" data-channel="rgb">RGB</button>
+                  <button class="histogram-channel-btn" data-channel="luminance">Luma</button>
+                  <button class="histogram-channel-btn" data-channel="red">R</button>
+                  <button class="histogram-channel-btn" data-channel="green">G</button>
+                  <button class="histogram-channel-btn" data-channel="blue">B</button>
+                </div>
+                <div class="histogram-graph">
+                  <canvas id="histogramCanvas" class="histogram-canvas" width="512" height="160"></canvas>
+                </div>
+                <div class="histogram-warnings" id="histogramWarnings"></div>
+                <div class="info-grid histogram-stats" id="histogramStats"></div>
               </div>
             </div>
           </div>
@@ -602,6 +1171,43 @@ export class ImageProcessor {
                     <input type="range" id="quality" class="control-slider" min="10" max="100" value="85">
                     <div class="control-value">85%</div>
                   </div>
+
+                  <div class="target-size">
+                    <label class="checkbox-label">
+                      <input type="checkbox" id="targetSizeEnabled">
+                      Target file size
+                    </label>
+                    <div class="target-size-fields" id="targetSizeFields" style="display: none;">
+                      <div class="control-group">
+                        <label class="control-label" for="targetSize">Max Size (KB)</label>
+                        <input type="number" id="targetSize" class="control-input" min="1" step="1" value="200">
+                      </div>
+                      <label class="checkbox-label">
+                        <input type="checkbox" id="targetAllowResize">
+                        Allow shrinking dimensions
+                      </label>
+                      <div class="target-size-info" id="targetSizeInfo"></div>
+                    </div>
+                  </div>
+
+                  <div class="metadata-options">
+                    <label class="control-label">Metadata</label>
+                    <div class="metadata-modes">
+                      <button class="metadata-mode-btn active" data-metadata="strip">Strip all</button>
+                      <button class="metadata-mode-btn" data-metadata="copyright">Copyright only</button>
+                      <button class="metadata-mode-btn" data-metadata="preserve">Keep all</button>
+                    </div>
+                    <div class="metadata-report" id="metadataReport"></div>
+                  </div>
+
+                  <div class="filename-options">
+                    <label class="control-label" for="filenameTemplate">File name</label>
+                    <input type="text" id="filenameTemplate" class="control-input" spellcheck="false" autocomplete="off">
+                    <div class="filename-tokens" id="filenameTokens">
+                      ${FILENAME_TOKENS.map(token => `<button class="filename-token-btn" data-token="${token}">{${token}}</button>`).join('')}
+                    </div>
+                    <div class="filename-preview" id="filenamePreview"></div>
+                  </div>
                 </div>
 
                 <div class="size-info" id="sizeInfo" style="display: none;">
@@ -623,25 +1229,146 @@ export class ImageProcessor {
             </div>
           </div>
 
-          <div class="action-buttons">
-            <button class="btn btn-secondary" id="resetBtn">
-              <svg class="icon icon-sm" viewBox="0 0 24 24">
-                <path stroke-linecap="round" stroke-linejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99"/>
-              </svg>
-              Reset
-            </button>
-            <button class="btn btn-primary" id="downloadBtn">
-              <svg class="icon icon-sm" viewBox="0 0 24 24">
-                <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3"/>
-              </svg>
-              Download
-            </button>
-          </div>
-        </div>
-      </div>
-    `
-
-    this.attachEventListeners(container)
+          <!-- Batch Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="batch">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M6.429 9.75 2.25 12l4.179 2.25m0-4.5 5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0 4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0-5.571 3-5.571-3"/>
+                </svg>
+                <span>Batch</span>
+                <span class="batch-count" id="batchCount"></span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content" id="batchContent">
+              <div class="tool-content-inner">
+                <p class="batch-hint">Applies the current crop, resize, filters and compression settings to every file.</p>
+                <div class="batch-dropzone" id="batchDropzone">
+                  Drop more images or <span class="batch-browse">browse</span>
+                </div>
+                <input type="file" id="batchFileInput" class="file-input" accept="image/*" multiple>
+                <ul class="batch-list" id="batchList">
+                  <li class="batch-empty">No files queued</li>
+                </ul>
+                <div class="batch-summary" id="batchSummary" style="display: none;"></div>
+                <div class="batch-actions">
+                  <button class="btn btn-secondary" id="batchClearBtn" disabled>Clear</button>
+                  <button class="btn btn-primary" id="batchRunBtn" disabled>
+                    <svg class="icon icon-sm" viewBox="0 0 24 24">
+                      <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3"/>
+                    </svg>
+                    Process & Download ZIP
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <!-- History Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="history">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z"/>
+                </svg>
+                <span>History</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content" id="historyContent">
+              <div class="tool-content-inner">
+                <div class="history-actions">
+                  <button class="btn btn-secondary" id="undoBtn" disabled>
+                    <svg class="icon icon-sm" viewBox="0 0 24 24">
+                      <path stroke-linecap="round" stroke-linejoin="round" d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3"/>
+                    </svg>
+                    Undo
+                  </button>
+                  <button class="btn btn-secondary" id="redoBtn" disabled>
+                    <svg class="icon icon-sm" viewBox="0 0 24 24">
+                      <path stroke-linecap="round" stroke-linejoin="round" d="m15 15 6-6m0 0-6-6m6 6H9a6 6 0 0 0 0 12h3"/>
+                    </svg>
+                    Redo
+                  </button>
+                </div>
+                <ul class="history-list" id="historyList">
+                  <li class="history-empty">No edits yet</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          <!-- Icon Pack Section -->
+          <div class="tool-section">
+            <div class="tool-header" data-section="iconPack">
+              <div class="tool-title">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="M3.75 6A2.25 2.25 0 0 1 6 3.75h2.25A2.25 2.25 0 0 1 10.5 6v2.25a2.25 2.25 0 0 1-2.25 2.25H6a2.25 2.25 0 0 1-2.25-2.25V6ZM3.75 15.75A2.25 2.25 0 0 1 6 13.5h2.25a2.25 2.25 0 0 1 2.25 2.25V18a2.25 2.25 0 0 1-2.25 2.25H6A2.25 2.25 0 0 1 3.75 18v-2.25ZM13.5 6a2.25 2.25 0 0 1 2.25-2.25H18A2.25 2.25 0 0 1 20.25 6v2.25A2.25 2.25 0 0 1 18 10.5h-2.25a2.25 2.25 0 0 1-2.25-2.25V6ZM13.5 15.75a2.25 2.25 0 0 1 2.25-2.25H18a2.25 2.25 0 0 1 2.25 2.25V18A2.25 2.25 0 0 1 18 20.25h-2.25A2.25 2.25 0 0 1 13.5 18v-2.25Z"/>
+                </svg>
+                <span>Icon Pack</span>
+              </div>
+              <div class="tool-toggle">
+                <svg class="icon icon-sm" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5"/>
+                </svg>
+              </div>
+            </div>
+            <div class="tool-content" id="iconPackContent">
+              <div class="tool-content-inner">
+                <p class="icon-pack-hint">favicon.ico (16–64px), Apple touch and Android icons from the cropped image, plus a web manifest.</p>
+                <div class="icon-pack-fields">
+                  <div class="control-group">
+                    <label class="control-label" for="iconPackName">App Name</label>
+                    <input type="text" id="iconPackName" class="control-input" value="My App">
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label" for="iconPackShortName">Short Name</label>
+                    <input type="text" id="iconPackShortName" class="control-input" value="App">
+                  </div>
+                  <div class="control-group">
+                    <label class="control-label" for="iconPackThemeColor">Theme Color</label>
+                    <input type="color" id="iconPackThemeColor" class="icon-pack-color" value="#ffffff">
+                  </div>
+                </div>
+                <button class="btn btn-secondary" id="iconPackBtn">
+                  <svg class="icon icon-sm" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3"/>
+                  </svg>
+                  Download Icon Pack
+                </button>
+                <pre class="icon-pack-snippet" id="iconPackSnippet" style="display: none;"></pre>
+              </div>
+            </div>
+          </div>
+
+          <div class="action-buttons">
+            <button class="btn btn-secondary" id="resetBtn">
+              <svg class="icon icon-sm" viewBox="0 0 24 24">
+                <path stroke-linecap="round" stroke-linejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99"/>
+              </svg>
+              Reset
+            </button>
+            <button class="btn btn-primary" id="downloadBtn">
+              <svg class="icon icon-sm" viewBox="0 0 24 24">
+                <path stroke-linecap="round" stroke-linejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3"/>
+              </svg>
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+    `
+
+    this.attachEventListeners(container)
     return container
   }
 
@@ -659,7 +1386,7 @@ export class ImageProcessor {
 
     // Theme toggle
     themeToggle.addEventListener('click', () => {
-      this.toggleTheme()
+      this.toggleTheme(container)
       this.updateThemeIcon(themeToggle)
     })
     this.updateThemeIcon(themeToggle)
@@ -686,35 +1413,146 @@ export class ImageProcessor {
     uploadArea.addEventListener('drop', (e) => {
       e.preventDefault()
       uploadArea.classList.remove('dragover')
-      const files = e.dataTransfer?.files
-      if (files && files[0]) {
+      const files = Array.from(e.dataTransfer?.files || [])
+      if (files.length > 0) {
         this.handleFileUpload(files[0], previewImage, imageSection, imageInfo, uploadSection)
       }
+      // Several files open the first one for tuning and queue them all
+      if (files.length > 1) {
+        this.addBatchFiles(container, files)
+      }
     })
 
     fileInput.addEventListener('change', (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0]
-      if (file) {
-        this.handleFileUpload(file, previewImage, imageSection, imageInfo, uploadSection)
+      const input = e.target as HTMLInputElement
+      const files = Array.from(input.files || [])
+      if (files.length > 0) {
+        this.handleFileUpload(files[0], previewImage, imageSection, imageInfo, uploadSection)
+      }
+      if (files.length > 1) {
+        this.addBatchFiles(container, files)
       }
+      input.value = ''
+    })
+
+    // Image source tabs
+    const sourceTabs = container.querySelectorAll('.source-tab')
+    sourceTabs.forEach(tab => {
+      tab.addEventListener('click', () => {
+        const source = tab.getAttribute('data-source')!
+        sourceTabs.forEach(t => t.classList.toggle('active', t === tab))
+        container.querySelectorAll('.source-panel').forEach(panel => {
+          (panel as HTMLElement).style.display = panel.getAttribute('data-panel') === source ? 'block' : 'none'
+        })
+        if (source === 'page' && this.pageImages.length === 0) {
+          this.loadPageImages(container)
+        }
+      })
     })
 
+    // Page image gallery
+    const pageMinSize = container.querySelector('#pageMinSize') as HTMLInputElement
+    const pageImagesGrid = container.querySelector('#pageImagesGrid') as HTMLElement
+    const pageSelectAllBtn = container.querySelector('#pageSelectAllBtn') as HTMLButtonElement
+    const pageRefreshBtn = container.querySelector('#pageRefreshBtn') as HTMLButtonElement
+    const pageToEditorBtn = container.querySelector('#pageToEditorBtn') as HTMLButtonElement
+    const pageToBatchBtn = container.querySelector('#pageToBatchBtn') as HTMLButtonElement
+
+    pageMinSize.addEventListener('input', () => this.renderPageImages(container))
+    pageRefreshBtn.addEventListener('click', () => this.loadPageImages(container))
+    pageSelectAllBtn.addEventListener('click', () => {
+      const visible = this.getVisiblePageImages(container)
+      const allSelected = visible.length > 0 && visible.every(image => this.selectedPageImages.has(image.src))
+      visible.forEach(image => {
+        if (allSelected) {
+          this.selectedPageImages.delete(image.src)
+        } else {
+          this.selectedPageImages.add(image.src)
+        }
+      })
+      this.renderPageImages(container)
+    })
+    pageImagesGrid.addEventListener('click', (e) => {
+      const tile = (e.target as HTMLElement).closest('.page-image') as HTMLElement | null
+      if (!tile) return
+
+      const src = this.pageImages[parseInt(tile.dataset.index!)].src
+      if (this.selectedPageImages.has(src)) {
+        this.selectedPageImages.delete(src)
+      } else {
+        this.selectedPageImages.add(src)
+      }
+      this.renderPageImages(container)
+    })
+    pageToEditorBtn.addEventListener('click', () => this.importPageImages(container, false))
+    pageToBatchBtn.addEventListener('click', () => this.importPageImages(container, true))
+
     // Tool section toggles
     const toolHeaders = container.querySelectorAll('.tool-header')
     toolHeaders.forEach(header => {
       header.addEventListener('click', () => {
         const section = header.getAttribute('data-section')!
         this.toggleSection(header as HTMLElement, section)
+        // The histogram is only computed while open, so opening it needs a fresh one
+        if (section === 'histogram') this.scheduleCompression(container)
+      })
+    })
+
+    this.attachToneListeners(container)
+
+    // Histogram channel picker; the data only needs redrawing
+    const histogramChannels = container.querySelectorAll<HTMLButtonElement>('.histogram-channel-btn')
+    histogramChannels.forEach(button => {
+      button.addEventListener('click', () => {
+        this.histogramChannel = button.dataset.channel as HistogramChannel
+        histogramChannels.forEach(btn => btn.classList.toggle('active', btn === button))
+        this.renderHistogram(container)
       })
     })
 
     // Crop functionality
     const toggleCropBtn = container.querySelector('#toggleCropBtn') as HTMLButtonElement
-    const cropStatus = container.querySelector('#cropStatus') as HTMLElement
-    const cropControls = container.querySelector('#cropControls') as HTMLElement
 
     toggleCropBtn.addEventListener('click', () => {
-      this.toggleCrop(toggleCropBtn, cropStatus, cropControls, container)
+      this.toggleCrop()
+      this.editStack.commit()
+    })
+
+    // Ratio lock and size presets
+    container.querySelectorAll('.crop-ratio-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        const id = button.getAttribute('data-ratio')!
+        if (id === 'free') {
+          this.setCropRatio(null, 'Crop ratio: free')
+        } else if (id === 'custom') {
+          this.setCustomCropRatio(container)
+        } else {
+          this.setCropRatio(CROP_RATIOS.find(ratio => ratio.id === id)!.ratio, `Crop ratio ${id}`)
+        }
+        this.editStack.commit()
+      })
+    })
+
+    container.querySelectorAll('#cropRatioWidth, #cropRatioHeight').forEach(input => {
+      input.addEventListener('input', () => this.setCustomCropRatio(container, 'crop-ratio'))
+      input.addEventListener('change', () => this.editStack.commit())
+    })
+
+    const cropPreset = container.querySelector('#cropPreset') as HTMLSelectElement
+    cropPreset.addEventListener('change', () => {
+      const preset = CROP_PRESETS.find(item => item.id === cropPreset.value)
+      cropPreset.value = ''
+      if (!preset) return
+
+      const ratioWidth = container.querySelector('#cropRatioWidth') as HTMLInputElement
+      const ratioHeight = container.querySelector('#cropRatioHeight') as HTMLInputElement
+      ratioWidth.value = preset.width.toString()
+      ratioHeight.value = preset.height.toString()
+      // The crop fixes the shape, the fill resize then lands on the exact pixel size
+      this.setCropRatio(preset.width / preset.height, `${preset.label} ${preset.width}×${preset.height}`, undefined, {
+        resize: { mode: 'fill', width: preset.width, height: preset.height }
+      })
+      this.editStack.commit()
     })
 
     // Crop sliders
@@ -728,82 +1566,128 @@ export class ImageProcessor {
         if (valueDisplay) {
           valueDisplay.textContent = `${value}%`
         }
-        this.updateCrop(container)
+        this.updateCrop(container, input.id)
+      })
+      input.addEventListener('change', () => this.editStack.commit())
+    })
+
+    // Rotate and flip buttons
+    container.querySelectorAll('.transform-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        this.applyTransform(button.getAttribute('data-transform') as TransformChange)
+        this.editStack.commit()
       })
     })
 
+    const straightenSlider = container.querySelector('#straighten') as HTMLInputElement
+    straightenSlider.addEventListener('input', () => {
+      const straighten = parseFloat(straightenSlider.value)
+      this.editStack.push('transform', `Straighten ${straighten}°`, { transform: { straighten } }, 'straighten')
+    })
+    straightenSlider.addEventListener('change', () => this.editStack.commit())
+
+    // Percent or pixel editing
+    container.querySelectorAll('.crop-unit-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        const unit = button.getAttribute('data-unit') as CropUnit
+        if (unit === this.editStack.getState().crop.unit) return
+        this.editStack.push('crop', unit === 'pixels' ? 'Crop in pixels' : 'Crop in percent', { crop: { unit } })
+        this.editStack.commit()
+      })
+    })
+
+    container.querySelectorAll('.crop-pixel-input').forEach(input => {
+      input.addEventListener('input', () => this.updatePixelCrop(container, input.id))
+      input.addEventListener('change', () => this.editStack.commit())
+      // Show the clamped value once editing is done
+      input.addEventListener('blur', () => this.syncFromState(container, this.editStack.getState()))
+    })
+
     // Listen for crop updates from interactive handles
     document.addEventListener('cropUpdate', (e: any) => {
       const settings = e.detail
-      
-      // Update slider values
-      const cropLeft = container.querySelector('#cropLeft') as HTMLInputElement
-      const cropTop = container.querySelector('#cropTop') as HTMLInputElement
-      const cropWidth = container.querySelector('#cropWidth') as HTMLInputElement
-      const cropHeight = container.querySelector('#cropHeight') as HTMLInputElement
-      
-      if (cropLeft) {
-        cropLeft.value = settings.x.toString()
-        const valueDisplay = cropLeft.parentElement?.querySelector('.control-value')
-        if (valueDisplay) valueDisplay.textContent = `${Math.round(settings.x)}%`
-      }
-      
-      if (cropTop) {
-        cropTop.value = settings.y.toString()
-        const valueDisplay = cropTop.parentElement?.querySelector('.control-value')
-        if (valueDisplay) valueDisplay.textContent = `${Math.round(settings.y)}%`
-      }
-      
-      if (cropWidth) {
-        cropWidth.value = settings.width.toString()
-        const valueDisplay = cropWidth.parentElement?.querySelector('.control-value')
-        if (valueDisplay) valueDisplay.textContent = `${Math.round(settings.width)}%`
-      }
-      
-      if (cropHeight) {
-        cropHeight.value = settings.height.toString()
-        const valueDisplay = cropHeight.parentElement?.querySelector('.control-value')
-        if (valueDisplay) valueDisplay.textContent = `${Math.round(settings.height)}%`
-      }
-      
-      this.applyCropOverlay(container)
-      this.updateCompression(container)
+      this.editStack.push('crop', this.getCropLabel(settings), {
+        crop: { x: settings.x, y: settings.y, width: settings.width, height: settings.height }
+      }, 'crop-overlay')
+    })
+    document.addEventListener('cropCommit', () => this.editStack.commit())
+
+    // Sliders, buttons and the crop overlay are views of the edit stack
+    document.addEventListener('editStackChange', (e: any) => {
+      this.syncFromState(container, e.detail)
     })
 
     // Control sliders
-    const sliders = container.querySelectorAll('.control-slider:not(#cropLeft):not(#cropTop):not(#cropWidth):not(#cropHeight)')
+    const sliders = container.querySelectorAll('.control-slider:not(#cropLeft):not(#cropTop):not(#cropWidth):not(#cropHeight):not(#straighten):not(.tone-slider)')
     sliders.forEach(slider => {
       const input = slider as HTMLInputElement
       const valueDisplay = input.parentElement?.querySelector('.control-value')
       
       input.addEventListener('input', () => {
         const value = input.value
-        let suffix = '%'
-        
-        if (input.id === 'blur') suffix = 'px'
-        
-        if (valueDisplay) {
-          valueDisplay.textContent = `${value}${suffix}`
-        }
-        
+
         if (input.id === 'quality') {
-          this.updateCompression(container)
-        } else {
-          this.applyFilters(container)
+          if (valueDisplay) {
+            valueDisplay.textContent = `${value}%`
+          }
+          this.scheduleCompression(container)
+          return
         }
+
+        const key = input.id as AdjustmentKey
+        const filters: EditChanges['filters'] = {}
+        filters[key] = parseFloat(value)
+        this.editStack.push('adjustment', `${this.getControlLabel(input)} ${this.formatAdjustment(key, parseFloat(value))}`, { filters }, key)
       })
+      input.addEventListener('change', () => this.editStack.commit())
     })
 
-    // Filter buttons
-    const filterButtons = container.querySelectorAll('.filter-btn')
-    filterButtons.forEach(button => {
+    // Filter buttons, including the imported LUTs added later
+    const filterButtons = container.querySelector('.filter-buttons') as HTMLElement
+    filterButtons.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('.filter-btn')
+      if (!button) return
+      const filter = button.getAttribute('data-filter') || 'none'
+      this.editStack.push('filter', `Filter: ${button.textContent?.trim()}`, { filters: { filter } })
+    })
+    this.attachLutListeners(container)
+    this.attachCustomFilterListeners(container)
+
+    // Resize controls
+    const resizeModeButtons = container.querySelectorAll('.resize-mode-btn')
+    resizeModeButtons.forEach(button => {
       button.addEventListener('click', () => {
-        filterButtons.forEach(btn => btn.classList.remove('active'))
-        button.classList.add('active')
-        this.applyFilters(container)
+        this.setResizeMode(button.getAttribute('data-mode') as ResizeMode)
       })
     })
 
+    const resizeInputs: Record<string, keyof ResizeOptions> = {
+      resizeWidth: 'width',
+      resizeHeight: 'height',
+      resizePercent: 'percent',
+      resizeLongEdge: 'longEdge'
+    }
+    Object.entries(resizeInputs).forEach(([id, key]) => {
+      const input = container.querySelector(`#${id}`) as HTMLInputElement
+      input.addEventListener('input', () => {
+        const value = parseInt(input.value)
+        if (!value || value < 1) return
+
+        const resize = { ...this.editStack.getState().resize, [key]: value }
+        this.editStack.push('resize', this.getResizeLabel(resize), { resize: { [key]: value } }, `resize-${key}`)
+      })
+      input.addEventListener('change', () => this.editStack.commit())
+    })
+
+    const aspectCheckbox = container.querySelector('#maintainAspectRatio') as HTMLInputElement
+    aspectCheckbox.addEventListener('change', () => {
+      const maintainAspectRatio = aspectCheckbox.checked
+      this.editStack.push('resize', maintainAspectRatio ? 'Lock aspect ratio' : 'Unlock aspect ratio', {
+        resize: { maintainAspectRatio }
+      })
+      this.editStack.commit()
+    })
+
     // Format buttons
     const formatButtons = container.querySelectorAll('.format-btn')
     formatButtons.forEach(button => {
@@ -811,18 +1695,31 @@ export class ImageProcessor {
         formatButtons.forEach(btn => btn.classList.remove('active'))
         button.classList.add('active')
         
-        // Update quality slider visibility
-        const format = button.getAttribute('data-format')
-        const qualityGroup = container.querySelector('#quality')?.parentElement
-        const formatInfo = this.compressionManager.getFormatInfo(format!)
-        
-        if (qualityGroup) {
-          qualityGroup.style.opacity = formatInfo?.supportsQuality ? '1' : '0.5'
-          const qualitySlider = qualityGroup.querySelector('#quality') as HTMLInputElement
-          qualitySlider.disabled = !formatInfo?.supportsQuality
-        }
-        
-        this.updateCompression(container)
+        this.updateQualityControl(container)
+        this.scheduleCompression(container)
+      })
+    })
+
+    // Target file size
+    const targetSizeEnabled = container.querySelector('#targetSizeEnabled') as HTMLInputElement
+    const targetSizeFields = container.querySelector('#targetSizeFields') as HTMLElement
+    const targetSize = container.querySelector('#targetSize') as HTMLInputElement
+    const targetAllowResize = container.querySelector('#targetAllowResize') as HTMLInputElement
+
+    targetSizeEnabled.addEventListener('change', () => {
+      targetSizeFields.style.display = targetSizeEnabled.checked ? 'block' : 'none'
+      this.updateQualityControl(container)
+      this.scheduleCompression(container)
+    })
+    targetSize.addEventListener('input', () => this.scheduleCompression(container))
+    targetAllowResize.addEventListener('change', () => this.scheduleCompression(container))
+
+    // Metadata privacy
+    const metadataButtons = container.querySelectorAll('.metadata-mode-btn')
+    metadataButtons.forEach(button => {
+      button.addEventListener('click', () => {
+        metadataButtons.forEach(btn => btn.classList.toggle('active', btn === button))
+        this.scheduleCompression(container)
       })
     })
 
@@ -830,8 +1727,1068 @@ export class ImageProcessor {
     const resetBtn = container.querySelector('#resetBtn') as HTMLButtonElement
     const downloadBtn = container.querySelector('#downloadBtn') as HTMLButtonElement
 
-    resetBtn.addEventListener('click', () => this.resetAll(container))
-    downloadBtn.addEventListener('click', () => this.downloadImage(container))
+    resetBtn.addEventListener('click', () => this.resetAll(container))
+    downloadBtn.addEventListener('click', () => this.downloadImage(container))
+
+    // Before/after comparison against the encoded file
+    const previewModes = container.querySelector('#previewModes') as HTMLElement
+    const compareStage = container.querySelector('#compareStage') as HTMLElement
+    const compareZoomValue = container.querySelector('#compareZoomValue') as HTMLButtonElement
+    this.compareViewer.attach(compareStage)
+    previewModes.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('.preview-mode-btn') as HTMLButtonElement | null
+      if (button) this.setPreviewMode(container, button.dataset.mode as 'edit' | CompareMode)
+    })
+    container.querySelectorAll<HTMLButtonElement>('.compare-zoom-btn').forEach(button => {
+      button.addEventListener('click', () => this.compareViewer.zoomBy(button.dataset.zoom === 'in' ? 2 : 0.5))
+    })
+    compareZoomValue.addEventListener('click', () => this.compareViewer.resetView())
+    compareStage.addEventListener('compareViewChange', () => {
+      compareZoomValue.textContent = `${Math.round(this.compareViewer.getZoom() * 100)}%`
+    })
+
+    // Filename template; stored with the preferences so context-menu exports use it too
+    const filenameTemplateInput = container.querySelector('#filenameTemplate') as HTMLInputElement
+    const filenameTokens = container.querySelector('#filenameTokens') as HTMLElement
+    filenameTemplateInput.addEventListener('input', () => this.updateFilenamePreview(container))
+    filenameTemplateInput.addEventListener('change', () => {
+      this.savePreferences(container, { filenameTemplate: filenameTemplateInput.value })
+    })
+    filenameTokens.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('.filename-token-btn') as HTMLButtonElement | null
+      if (!button) return
+
+      const start = filenameTemplateInput.selectionStart ?? filenameTemplateInput.value.length
+      const end = filenameTemplateInput.selectionEnd ?? start
+      const token = `{${button.dataset.token}}`
+      filenameTemplateInput.setRangeText(token, start, end, 'end')
+      filenameTemplateInput.focus()
+      this.updateFilenamePreview(container)
+      this.savePreferences(container, { filenameTemplate: filenameTemplateInput.value })
+    })
+
+    // Icon pack
+    const iconPackBtn = container.querySelector('#iconPackBtn') as HTMLButtonElement
+    iconPackBtn.addEventListener('click', () => this.downloadIconPack(container))
+
+    // Batch queue
+    const batchDropzone = container.querySelector('#batchDropzone') as HTMLElement
+    const batchFileInput = container.querySelector('#batchFileInput') as HTMLInputElement
+    const batchList = container.querySelector('#batchList') as HTMLElement
+    const batchClearBtn = container.querySelector('#batchClearBtn') as HTMLButtonElement
+    const batchRunBtn = container.querySelector('#batchRunBtn') as HTMLButtonElement
+
+    batchDropzone.addEventListener('click', () => batchFileInput.click())
+    batchDropzone.addEventListener('dragover', (e) => {
+      e.preventDefault()
+      batchDropzone.classList.add('dragover')
+    })
+    batchDropzone.addEventListener('dragleave', () => {
+      batchDropzone.classList.remove('dragover')
+    })
+    batchDropzone.addEventListener('drop', (e) => {
+      e.preventDefault()
+      batchDropzone.classList.remove('dragover')
+      this.addBatchFiles(container, Array.from(e.dataTransfer?.files || []))
+    })
+    batchFileInput.addEventListener('change', () => {
+      this.addBatchFiles(container, Array.from(batchFileInput.files || []))
+      batchFileInput.value = ''
+    })
+    batchList.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('.batch-remove') as HTMLButtonElement | null
+      if (!button) return
+
+      this.batchProcessor.remove(parseInt(button.dataset.id!))
+      this.renderBatch(container)
+    })
+    batchClearBtn.addEventListener('click', () => {
+      this.batchProcessor.clear()
+      this.renderBatch(container)
+    })
+    batchRunBtn.addEventListener('click', () => this.runBatch(container))
+
+    // History controls
+    const undoBtn = container.querySelector('#undoBtn') as HTMLButtonElement
+    const redoBtn = container.querySelector('#redoBtn') as HTMLButtonElement
+    const historyList = container.querySelector('#historyList') as HTMLElement
+
+    undoBtn.addEventListener('click', () => this.editStack.undo())
+    redoBtn.addEventListener('click', () => this.editStack.redo())
+    historyList.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('button[data-id]') as HTMLButtonElement | null
+      if (!button) return
+
+      const id = parseInt(button.dataset.id!)
+      if (button.classList.contains('history-toggle')) {
+        this.editStack.toggle(id)
+      } else if (button.classList.contains('history-remove')) {
+        this.editStack.remove(id)
+      }
+    })
+
+    // Recipes
+    const recipeName = container.querySelector('#recipeName') as HTMLInputElement
+    const recipeSaveBtn = container.querySelector('#recipeSaveBtn') as HTMLButtonElement
+    const recipeList = container.querySelector('#recipeList') as HTMLElement
+    const recipeFileInput = container.querySelector('#recipeFileInput') as HTMLInputElement
+
+    recipeSaveBtn.addEventListener('click', () => this.saveRecipe(container))
+    recipeName.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.saveRecipe(container)
+    })
+    recipeList.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('button') as HTMLButtonElement | null
+      if (!button) return
+
+      const recipe = this.recipes.find(item => item.id === button.dataset.id)
+      if (!recipe) return
+      if (button.classList.contains('recipe-remove')) {
+        this.removeRecipe(container, recipe)
+      } else {
+        this.applyRecipe(container, recipe)
+      }
+    })
+    const recipeExportBtn = container.querySelector('#recipeExportBtn') as HTMLButtonElement
+    const recipeImportBtn = container.querySelector('#recipeImportBtn') as HTMLButtonElement
+    recipeExportBtn.addEventListener('click', () => this.exportRecipes())
+    recipeImportBtn.addEventListener('click', () => recipeFileInput.click())
+    recipeFileInput.addEventListener('change', async () => {
+      const file = recipeFileInput.files?.[0]
+      recipeFileInput.value = ''
+      if (!file) return
+
+      try {
+        const count = await this.recipeManager.importJson(await file.text())
+        await this.loadRecipes(container)
+        this.toastManager.success(`Imported ${count} recipe${count === 1 ? '' : 's'}`)
+      } catch (error) {
+        this.toastManager.error(error instanceof Error ? error.message : 'Failed to import recipes')
+      }
+    })
+    this.loadRecipes(container)
+
+    this.registerShortcuts(container)
+    this.attachPreferenceListeners(container)
+  }
+
+  private attachPreferenceListeners(container: HTMLElement): void {
+    const settingsDrawer = container.querySelector('#settingsDrawer') as HTMLElement
+    const settingsToggle = container.querySelector('#settingsToggle') as HTMLButtonElement
+    const settingsClose = container.querySelector('#settingsClose') as HTMLButtonElement
+    settingsToggle.addEventListener('click', () => settingsDrawer.classList.toggle('open'))
+    settingsClose.addEventListener('click', () => settingsDrawer.classList.remove('open'))
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') settingsDrawer.classList.remove('open')
+    })
+
+    // Choices mirror the editor's own format buttons and sections
+    const prefFormat = container.querySelector('#prefFormat') as HTMLSelectElement
+    prefFormat.innerHTML = Array.from(container.querySelectorAll<HTMLButtonElement>('.format-btn'))
+      .map(button => `<option value="${button.dataset.format}">${button.textContent?.trim()}</option>`)
+      .join('')
+    const prefSections = container.querySelector('#prefSections') as HTMLElement
+    prefSections.innerHTML = Array.from(container.querySelectorAll<HTMLElement>('.tool-header[data-section]'))
+      .map(header => `
+        <label class="checkbox-label">
+          <input type="checkbox" value="${header.dataset.section}">
+          ${header.querySelector('.tool-title span')?.textContent?.trim()}
+        </label>
+      `)
+      .join('')
+
+    const prefTheme = container.querySelector('#prefTheme') as HTMLSelectElement
+    const prefQuality = container.querySelector('#prefQuality') as HTMLInputElement
+    const prefMaxUpload = container.querySelector('#prefMaxUpload') as HTMLInputElement
+    const prefNotifications = container.querySelector('#prefNotifications') as HTMLSelectElement
+
+    prefTheme.addEventListener('change', () => this.savePreferences(container, { theme: prefTheme.value as ThemePreference }))
+    prefFormat.addEventListener('change', () => this.savePreferences(container, { defaultFormat: prefFormat.value }))
+    prefQuality.addEventListener('change', () => this.savePreferences(container, { defaultQuality: parseInt(prefQuality.value) }))
+    prefMaxUpload.addEventListener('change', () => this.savePreferences(container, { maxUploadSizeMb: parseFloat(prefMaxUpload.value) }))
+    prefNotifications.addEventListener('change', () => {
+      this.savePreferences(container, { notifications: prefNotifications.value as NotificationLevel })
+    })
+    prefSections.addEventListener('change', () => {
+      const sections = Array.from(prefSections.querySelectorAll<HTMLInputElement>('input:checked')).map(input => input.value)
+      this.savePreferences(container, { autoExpandSections: sections })
+    })
+
+    this.loadPreferences(container)
+  }
+
+  private async loadPreferences(container: HTMLElement): Promise<void> {
+    let preferences: Preferences
+    try {
+      preferences = await this.preferencesManager.load()
+    } catch (error) {
+      console.error('Failed to load preferences:', error)
+      preferences = this.preferencesManager.get()
+    }
+    this.applyPreferences(container, preferences)
+    this.applyExportDefaults(container, preferences)
+
+    // background.js asks for the drawer by leaving a flag before opening the popup
+    if (typeof chrome !== 'undefined' && chrome.storage?.local) {
+      const { openSettings } = await chrome.storage.local.get('openSettings')
+      if (openSettings) {
+        await chrome.storage.local.remove('openSettings')
+        container.querySelector('#settingsDrawer')?.classList.add('open')
+      }
+    }
+  }
+
+  private async savePreferences(container: HTMLElement, changes: Partial<Preferences>): Promise<void> {
+    try {
+      this.applyPreferences(container, await this.preferencesManager.update(changes))
+    } catch (error) {
+      console.error('Failed to save preferences:', error)
+      this.toastManager.error('Preferences could not be saved')
+    }
+  }
+
+  // Re-fills the drawer too, so clamped values show what was actually stored
+  private applyPreferences(container: HTMLElement, preferences: Preferences): void {
+    this.fileHandler.setMaxFileSize(preferences.maxUploadSizeMb)
+    const uploadLimit = container.querySelector('#uploadLimit') as HTMLElement
+    uploadLimit.textContent = preferences.maxUploadSizeMb.toString()
+    this.toastManager.setLevel(preferences.notifications)
+    this.isDarkMode = this.preferencesManager.isDarkTheme()
+    this.applyTheme()
+    this.updateThemeIcon(container.querySelector('#themeToggle') as HTMLButtonElement)
+
+    const prefTheme = container.querySelector('#prefTheme') as HTMLSelectElement
+    const prefFormat = container.querySelector('#prefFormat') as HTMLSelectElement
+    const prefQuality = container.querySelector('#prefQuality') as HTMLInputElement
+    const prefMaxUpload = container.querySelector('#prefMaxUpload') as HTMLInputElement
+    const prefNotifications = container.querySelector('#prefNotifications') as HTMLSelectElement
+    prefTheme.value = preferences.theme
+    prefFormat.value = preferences.defaultFormat
+    prefQuality.value = preferences.defaultQuality.toString()
+    prefMaxUpload.value = preferences.maxUploadSizeMb.toString()
+    prefNotifications.value = preferences.notifications
+    container.querySelectorAll<HTMLInputElement>('#prefSections input').forEach(input => {
+      input.checked = preferences.autoExpandSections.includes(input.value)
+    })
+
+    // Leave the field alone while it is being typed in
+    const filenameTemplateInput = container.querySelector('#filenameTemplate') as HTMLInputElement
+    if (document.activeElement !== filenameTemplateInput) {
+      filenameTemplateInput.value = preferences.filenameTemplate
+    }
+    this.updateFilenamePreview(container)
+  }
+
+  private applyExportDefaults(container: HTMLElement, preferences: Preferences): void {
+    const qualitySlider = container.querySelector('#quality') as HTMLInputElement
+    qualitySlider.value = preferences.defaultQuality.toString()
+    const qualityDisplay = qualitySlider.parentElement?.querySelector('.control-value')
+    if (qualityDisplay) qualityDisplay.textContent = `${preferences.defaultQuality}%`
+
+    const formatButtons = container.querySelectorAll('.format-btn')
+    const preferred = container.querySelector(`.format-btn[data-format="${preferences.defaultFormat}"]`) ||
+      container.querySelector('.format-btn[data-format="jpeg"]')
+    formatButtons.forEach(btn => btn.classList.toggle('active', btn === preferred))
+    this.updateQualityControl(container)
+  }
+
+  private expandPreferredSections(imageSection: HTMLElement): void {
+    this.preferencesManager.get().autoExpandSections.forEach(section => {
+      if (this.activeSections.has(section)) return
+      const header = imageSection.querySelector(`.tool-header[data-section="${section}"]`) as HTMLElement | null
+      if (header) this.toggleSection(header, section)
+    })
+  }
+
+  private async loadRecipes(container: HTMLElement): Promise<void> {
+    try {
+      this.recipes = await this.recipeManager.list()
+    } catch (error) {
+      console.error('Failed to load recipes:', error)
+      this.recipes = []
+    }
+    this.renderRecipes(container)
+  }
+
+  private renderRecipes(container: HTMLElement): void {
+    const recipeList = container.querySelector('#recipeList') as HTMLElement
+    if (this.recipes.length === 0) {
+      recipeList.innerHTML = '<li class="recipe-empty">No saved recipes</li>'
+      return
+    }
+
+    recipeList.innerHTML = this.recipes.map(recipe => `
+      <li class="recipe-item">
+        <button class="recipe-apply" data-id="${recipe.id}" title="Apply recipe">
+          <span class="recipe-name">${this.escapeHtml(recipe.name)}</span>
+          <span class="recipe-meta">${this.escapeHtml(recipe.format.toUpperCase())} · ${recipe.quality}%${recipe.state.filters?.filter && recipe.state.filters.filter !== 'none' ? ` · ${this.escapeHtml(this.filterManager.getLut(recipe.state.filters.filter)?.name || recipe.state.filters.filter)}` : ''}</span>
+        </button>
+        <button class="recipe-remove" data-id="${recipe.id}" title="Delete recipe">
+          <svg class="icon icon-sm" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/>
+          </svg>
+        </button>
+      </li>
+    `).join('')
+  }
+
+  private async saveRecipe(container: HTMLElement): Promise<void> {
+    const recipeName = container.querySelector('#recipeName') as HTMLInputElement
+    try {
+      const recipe = await this.recipeManager.save({
+        name: recipeName.value,
+        state: this.editStack.getState(),
+        format: container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg',
+        quality: parseInt((container.querySelector('#quality') as HTMLInputElement).value)
+      })
+      recipeName.value = ''
+      await this.loadRecipes(container)
+      this.toastManager.success(`Recipe "${recipe.name}" saved`)
+    } catch (error) {
+      this.toastManager.error(error instanceof Error ? error.message : 'Failed to save recipe')
+    }
+  }
+
+  private async removeRecipe(container: HTMLElement, recipe: Recipe): Promise<void> {
+    try {
+      await this.recipeManager.remove(recipe.id)
+      await this.loadRecipes(container)
+      this.toastManager.success(`Recipe "${recipe.name}" deleted`)
+    } catch (error) {
+      this.toastManager.error('Failed to delete recipe')
+    }
+  }
+
+  // One undoable step; anything the recipe leaves out falls back to the defaults
+  private applyRecipe(container: HTMLElement, recipe: Recipe): void {
+    const defaults = this.editStack.getDefaultState()
+    const transform = { ...defaults.transform, ...recipe.state.transform }
+    let crop = { ...defaults.crop, ...recipe.state.crop }
+
+    // A locked ratio is re-fitted because the percentages came from another image
+    if (crop.enabled && crop.aspectRatio && this.currentImage) {
+      crop = this.cropManager.fitToRatio(crop, crop.aspectRatio, this.getCropImageAspect({ ...defaults, transform }))
+    }
+
+    const changes: EditChanges = {
+      transform,
+      crop,
+      filters: { ...defaults.filters, ...recipe.state.filters },
+      resize: { ...defaults.resize, ...recipe.state.resize }
+    }
+    this.editStack.push('recipe', `Recipe: ${recipe.name}`, changes)
+    this.activeRecipe = recipe.name
+
+    const qualitySlider = container.querySelector('#quality') as HTMLInputElement
+    qualitySlider.value = recipe.quality.toString()
+    const qualityDisplay = qualitySlider.parentElement?.querySelector('.control-value')
+    if (qualityDisplay) qualityDisplay.textContent = `${recipe.quality}%`
+    // Marked directly rather than clicked, which would schedule a second encode
+    const formatButtons = container.querySelectorAll<HTMLButtonElement>('.format-btn')
+    formatButtons.forEach(button => button.classList.toggle('active', button.dataset.format === recipe.format))
+    this.updateQualityControl(container)
+    this.scheduleCompression(container)
+
+    this.toastManager.success(`Applied "${recipe.name}"`)
+  }
+
+  private attachLutListeners(container: HTMLElement): void {
+    const lutFileInput = container.querySelector('#lutFileInput') as HTMLInputElement
+    const lutImportBtn = container.querySelector('#lutImportBtn') as HTMLButtonElement
+    const lutRemoveBtn = container.querySelector('#lutRemoveBtn') as HTMLButtonElement
+
+    lutImportBtn.addEventListener('click', () => lutFileInput.click())
+    lutFileInput.addEventListener('change', async () => {
+      const file = lutFileInput.files?.[0]
+      lutFileInput.value = ''
+      if (!file) return
+
+      try {
+        const lut = await this.lutManager.save(this.lutManager.parse(await file.text(), file.name))
+        await this.loadLuts(container)
+        this.editStack.push('filter', `Filter: ${lut.name}`, { filters: { filter: `lut:${lut.id}` } })
+        this.toastManager.success(`LUT "${lut.name}" imported`)
+      } catch (error) {
+        this.toastManager.error(error instanceof Error ? error.message : 'Failed to import LUT')
+      }
+    })
+
+    lutRemoveBtn.addEventListener('click', async () => {
+      const { filter } = this.editStack.getState().filters
+      const lut = this.filterManager.getLut(filter)
+      if (!lut) return
+
+      // Looks saved with the LUT keep only its id, so they lose the grade once it is gone
+      const usedBy = [
+        ...this.customFilters.filter(item => item.filters.filter === filter).map(item => `custom filter "${item.name}"`),
+        ...this.recipes.filter(recipe => recipe.state.filters?.filter === filter).map(recipe => `recipe "${recipe.name}"`)
+      ]
+      if (usedBy.length > 0 && !window.confirm(
+        `"${lut.name}" is used by ${usedBy.join(', ')}. They will render without it. Delete the LUT anyway?`
+      )) return
+
+      try {
+        await this.lutManager.remove(lut.id)
+        this.editStack.push('filter', 'Filter: Original', { filters: { filter: 'none' } })
+        await this.loadLuts(container)
+        this.toastManager.success(`LUT "${lut.name}" deleted`)
+      } catch (error) {
+        this.toastManager.error('Failed to delete LUT')
+      }
+    })
+
+    this.loadLuts(container)
+  }
+
+  private async loadLuts(container: HTMLElement): Promise<void> {
+    let luts: CubeLut[] = []
+    try {
+      luts = await this.lutManager.list()
+    } catch (error) {
+      console.error('Failed to load LUTs:', error)
+    }
+    this.filterManager.setLuts(luts)
+    this.renderWorker.setLuts(luts)
+    this.batchWorker.setLuts(luts)
+    this.iconWorker.setLuts(luts)
+    this.lutsLoaded = true
+
+    const filterButtons = container.querySelector('.filter-buttons') as HTMLElement
+    filterButtons.querySelectorAll('.lut-filter-btn').forEach(button => button.remove())
+    luts.forEach(lut => {
+      const button = document.createElement('button')
+      button.className = 'filter-btn lut-filter-btn'
+      button.dataset.filter = `lut:${lut.id}`
+      button.title = `${lut.name} (${lut.size}³ LUT)`
+      button.innerHTML = `
+        <svg class="icon icon-sm" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" d="m21 7.5-9-5.25L3 7.5m18 0-9 5.25m9-5.25v9l-9 5.25M3 7.5l9 5.25M3 7.5v9l9 5.25m0-9v9"/>
+        </svg>
+        <span class="lut-name">${this.escapeHtml(lut.name)}</span>
+      `
+      filterButtons.appendChild(button)
+    })
+    this.syncFilterButtons(container, this.editStack.getState().filters)
+    this.renderRecipes(container)
+    // Thumbnails built on a LUT can only be rendered once it is loaded
+    this.renderCustomFilters(container)
+  }
+
+  private syncFilterButtons(container: HTMLElement, filters: FilterOptions): void {
+    container.querySelectorAll('.filter-btn').forEach(button => {
+      button.classList.toggle('active', button.getAttribute('data-filter') === filters.filter)
+    })
+    container.querySelectorAll<HTMLElement>('.custom-filter-item').forEach(item => {
+      const filter = this.customFilters.find(custom => custom.id === item.dataset.id)
+      item.classList.toggle('active', !!filter && this.isSameFilters(this.getCustomFilterOptions(filter), filters))
+    })
+
+    // Intensity and delete only apply to imported LUTs
+    const activeLut = this.filterManager.getLut(filters.filter)
+    const lutIntensityGroup = container.querySelector('#lutIntensityGroup') as HTMLElement
+    lutIntensityGroup.style.display = activeLut ? '' : 'none'
+    const lutRemoveBtn = container.querySelector('#lutRemoveBtn') as HTMLButtonElement
+    lutRemoveBtn.disabled = !activeLut
+  }
+
+  private attachCustomFilterListeners(container: HTMLElement): void {
+    const nameInput = container.querySelector('#customFilterName') as HTMLInputElement
+    const saveBtn = container.querySelector('#customFilterSaveBtn') as HTMLButtonElement
+    const list = container.querySelector('#customFilterList') as HTMLElement
+
+    saveBtn.addEventListener('click', () => this.saveCustomFilter(container))
+    nameInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.saveCustomFilter(container)
+    })
+    // Clearing the name leaves edit mode, so the next save adds a new filter
+    nameInput.addEventListener('input', () => {
+      if (!nameInput.value.trim()) this.setEditingCustomFilter(container, null)
+    })
+
+    list.addEventListener('click', async (e) => {
+      const button = (e.target as HTMLElement).closest('button[data-action]') as HTMLButtonElement | null
+      const item = button?.closest('.custom-filter-item') as HTMLElement | null
+      const filter = this.customFilters.find(custom => custom.id === item?.dataset.id)
+      if (!button || !filter) return
+
+      try {
+        switch (button.dataset.action) {
+          case 'apply':
+            this.applyCustomFilter(filter)
+            break
+          case 'edit':
+            this.applyCustomFilter(filter)
+            nameInput.value = filter.name
+            this.setEditingCustomFilter(container, filter.id)
+            nameInput.focus()
+            break
+          case 'earlier':
+          case 'later':
+            await this.customFilterManager.move(filter.id, button.dataset.action === 'earlier' ? -1 : 1)
+            await this.loadCustomFilters(container)
+            break
+          case 'remove':
+            await this.customFilterManager.remove(filter.id)
+            if (this.editingCustomFilterId === filter.id) {
+              nameInput.value = ''
+              this.setEditingCustomFilter(container, null)
+            }
+            await this.loadCustomFilters(container)
+            this.toastManager.success(`Filter "${filter.name}" deleted`)
+            break
+        }
+      } catch (error) {
+        this.toastManager.error(error instanceof Error ? error.message : 'Failed to update custom filters')
+      }
+    })
+
+    this.loadCustomFilters(container)
+  }
+
+  private async loadCustomFilters(container: HTMLElement): Promise<void> {
+    try {
+      this.customFilters = await this.customFilterManager.list()
+    } catch (error) {
+      console.error('Failed to load custom filters:', error)
+      this.customFilters = []
+    }
+    this.renderCustomFilters(container)
+  }
+
+  // Thumbnails are rendered from the loaded image, so they are redrawn whenever it changes
+  private renderCustomFilters(container: HTMLElement): void {
+    const list = container.querySelector('#customFilterList') as HTMLElement
+    if (this.customFilters.length === 0) {
+      list.innerHTML = '<li class="recipe-empty">No custom filters</li>'
+      return
+    }
+
+    list.innerHTML = this.customFilters.map((filter, index) => `
+      <li class="custom-filter-item${this.isMissingLut(filter) ? ' broken' : ''}" data-id="${filter.id}">
+        <button class="custom-filter-apply" data-action="apply" title="${this.isMissingLut(filter)
+          ? `${this.escapeHtml(filter.name)} uses a LUT that was deleted`
+          : `Apply ${this.escapeHtml(filter.name)}`}">
+          <span class="custom-filter-thumb"></span>
+          <span class="custom-filter-name">${this.escapeHtml(filter.name)}</span>
+        </button>
+        <div class="custom-filter-actions">
+          <button data-action="earlier" title="Move earlier"${index === 0 ? ' disabled' : ''}>
+            <svg class="icon icon-sm" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5"/>
+            </svg>
+          </button>
+          <button data-action="later" title="Move later"${index === this.customFilters.length - 1 ? ' disabled' : ''}>
+            <svg class="icon icon-sm" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5"/>
+            </svg>
+          </button>
+          <button data-action="edit" title="Edit filter">
+            <svg class="icon icon-sm" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125"/>
+            </svg>
+          </button>
+          <button data-action="remove" class="custom-filter-remove" title="Delete filter">
+            <svg class="icon icon-sm" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+      </li>
+    `).join('')
+
+    if (this.currentImage) {
+      if (!this.thumbnailSource) {
+        this.thumbnailSource = this.renderPipeline.createPreviewSource(this.currentImage, this.thumbnailSize)
+      }
+      const defaults = this.editStack.getDefaultState()
+      const scale = this.thumbnailSource.width / this.renderPipeline.getSourceSize(this.currentImage).width
+      list.querySelectorAll<HTMLElement>('.custom-filter-item').forEach((item, index) => {
+        const thumbnail = this.renderPipeline.renderPreview(
+          this.thumbnailSource!,
+          { transform: defaults.transform, crop: defaults.crop, filters: this.getCustomFilterOptions(this.customFilters[index]) },
+          scale
+        )
+        item.querySelector('.custom-filter-thumb')!.replaceChildren(toDomCanvas(thumbnail))
+      })
+    }
+
+    this.syncFilterButtons(container, this.editStack.getState().filters)
+  }
+
+  private async saveCustomFilter(container: HTMLElement): Promise<void> {
+    const nameInput = container.querySelector('#customFilterName') as HTMLInputElement
+    try {
+      const filter = await this.customFilterManager.save({
+        id: this.editingCustomFilterId || undefined,
+        name: nameInput.value,
+        filters: this.editStack.getState().filters
+      })
+      const updated = this.editingCustomFilterId !== null
+      nameInput.value = ''
+      this.setEditingCustomFilter(container, null)
+      await this.loadCustomFilters(container)
+      this.toastManager.success(`Filter "${filter.name}" ${updated ? 'updated' : 'saved'}`)
+    } catch (error) {
+      this.toastManager.error(error instanceof Error ? error.message : 'Failed to save custom filter')
+    }
+  }
+
+  private setEditingCustomFilter(container: HTMLElement, id: string | null): void {
+    this.editingCustomFilterId = id
+    const saveBtn = container.querySelector('#customFilterSaveBtn') as HTMLButtonElement
+    saveBtn.textContent = id ? 'Update' : 'Save'
+  }
+
+  // One undoable step that replaces every filter setting, like a recipe does
+  private applyCustomFilter(filter: CustomFilter): void {
+    this.editStack.push('filter', `Filter: ${filter.name}`, { filters: this.getCustomFilterOptions(filter) })
+    if (this.isMissingLut(filter)) {
+      this.toastManager.error(`"${filter.name}" uses a LUT that was deleted, so it renders without it`)
+    }
+  }
+
+  private isMissingLut(filter: CustomFilter): boolean {
+    return this.lutsLoaded && filter.filters.filter.startsWith('lut:') && !this.filterManager.getLut(filter.filters.filter)
+  }
+
+  // Settings added after the filter was saved fall back to the defaults
+  private getCustomFilterOptions(filter: CustomFilter): FilterOptions {
+    return { ...this.editStack.getDefaultState().filters, ...filter.filters }
+  }
+
+  private isSameFilters(a: FilterOptions, b: FilterOptions): boolean {
+    return (Object.keys(a) as (keyof FilterOptions)[]).every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]))
+  }
+
+  private async exportRecipes(): Promise<void> {
+    try {
+      this.downloadBlob(await this.recipeManager.exportJson(), 'solanam-recipes.json')
+    } catch (error) {
+      this.toastManager.error('Failed to export recipes')
+    }
+  }
+
+  private registerShortcuts(container: HTMLElement): void {
+    const whenImage = (action: () => void) => () => {
+      if (this.currentImage) action()
+    }
+
+    // Holding undo or redo steps through the history, as in other editors
+    this.shortcutManager.register({ id: 'undo', label: 'Undo', defaultKeys: ['Ctrl+Z'], handler: () => this.editStack.undo(), repeatable: true })
+    this.shortcutManager.register({
+      id: 'redo',
+      label: 'Redo',
+      defaultKeys: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+      handler: () => this.editStack.redo(),
+      repeatable: true
+    })
+    this.shortcutManager.register({ id: 'reset', label: 'Reset All', defaultKeys: ['R'], handler: whenImage(() => this.resetAll(container)) })
+    this.shortcutManager.register({ id: 'download', label: 'Download', defaultKeys: ['D'], handler: whenImage(() => this.downloadImage(container)) })
+    this.shortcutManager.register({
+      id: 'toggle-crop',
+      label: 'Toggle crop',
+      defaultKeys: ['C'],
+      handler: whenImage(() => {
+        this.toggleCrop()
+        this.editStack.commit()
+      })
+    })
+
+    // Arrow keys nudge the crop box by 1px (10px with Shift); Alt+arrows resize it
+    const isCropping = () => !!this.currentImage && this.editStack.getState().crop.enabled
+    const cropNudges = [
+      { id: 'move-left', label: 'Move crop left', keys: 'ArrowLeft', x: -1, y: 0, resize: false },
+      { id: 'move-right', label: 'Move crop right', keys: 'ArrowRight', x: 1, y: 0, resize: false },
+      { id: 'move-up', label: 'Move crop up', keys: 'ArrowUp', x: 0, y: -1, resize: false },
+      { id: 'move-down', label: 'Move crop down', keys: 'ArrowDown', x: 0, y: 1, resize: false },
+      { id: 'narrower', label: 'Make crop narrower', keys: 'Alt+ArrowLeft', x: -1, y: 0, resize: true },
+      { id: 'wider', label: 'Make crop wider', keys: 'Alt+ArrowRight', x: 1, y: 0, resize: true },
+      { id: 'shorter', label: 'Make crop shorter', keys: 'Alt+ArrowUp', x: 0, y: -1, resize: true },
+      { id: 'taller', label: 'Make crop taller', keys: 'Alt+ArrowDown', x: 0, y: 1, resize: true }
+    ]
+    cropNudges.forEach(nudge => [1, 10].forEach(distance => {
+      this.shortcutManager.register({
+        id: distance === 1 ? `crop-${nudge.id}` : `crop-${nudge.id}-${distance}`,
+        label: distance === 1 ? nudge.label : `${nudge.label} by ${distance}px`,
+        defaultKeys: [distance === 1 ? nudge.keys : `Shift+${nudge.keys}`],
+        handler: () => {
+          this.nudgeCrop(nudge.x * distance, nudge.y * distance, nudge.resize)
+          this.cropNudged = true
+        },
+        repeatable: true,
+        isActive: isCropping
+      })
+    }))
+    document.addEventListener('keyup', () => {
+      if (!this.cropNudged) return
+      this.cropNudged = false
+      this.editStack.commit()
+    })
+
+    // Number keys pick the export format in the order the buttons are shown
+    container.querySelectorAll<HTMLButtonElement>('.format-btn').forEach((button, index) => {
+      this.shortcutManager.register({
+        id: `format-${button.dataset.format}`,
+        label: `Export as ${button.textContent?.trim()}`,
+        defaultKeys: [`${index + 1}`],
+        handler: () => button.click()
+      })
+    })
+
+    // While a shortcut is being changed the next key press is its new binding
+    document.addEventListener('keydown', async (e) => {
+      if (!this.recordingShortcut) return
+
+      e.preventDefault()
+      e.stopImmediatePropagation()
+      if (e.key === 'Escape') {
+        this.recordingShortcut = null
+        this.renderShortcuts(container)
+        return
+      }
+
+      const combo = this.shortcutManager.fromEvent(e)
+      if (!combo) return
+
+      const id = this.recordingShortcut
+      this.recordingShortcut = null
+      try {
+        await this.shortcutManager.rebind(id, combo)
+        this.toastManager.success(`Shortcut set to ${combo}`)
+      } catch (error) {
+        this.toastManager.error((error as Error).message)
+      }
+      this.renderShortcuts(container)
+    }, { capture: true })
+    document.addEventListener('keydown', (e) => this.shortcutManager.handleKeydown(e))
+
+    const shortcutsGrid = container.querySelector('#shortcutsGrid') as HTMLElement
+    shortcutsGrid.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('[data-shortcut]') as HTMLElement | null
+      if (!button) return
+
+      if (button.dataset.shortcut === 'browser') {
+        chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })
+        return
+      }
+      this.recordingShortcut = this.recordingShortcut === button.dataset.shortcut ? null : button.dataset.shortcut!
+      this.renderShortcuts(container)
+    })
+
+    const shortcutsResetBtn = container.querySelector('#shortcutsResetBtn') as HTMLButtonElement
+    shortcutsResetBtn.addEventListener('click', async () => {
+      this.recordingShortcut = null
+      try {
+        await this.shortcutManager.resetBindings()
+        this.toastManager.success('Shortcuts reset')
+      } catch {
+        this.toastManager.error('Shortcuts could not be saved')
+      }
+      this.renderShortcuts(container)
+    })
+
+    // The defaults work until the saved bindings arrive
+    this.renderShortcuts(container)
+    this.shortcutManager.load()
+      .then(() => this.renderShortcuts(container))
+      .catch(error => console.error('Failed to load shortcuts:', error))
+  }
+
+  private async renderShortcuts(container: HTMLElement): Promise<void> {
+    const shortcutsGrid = container.querySelector('#shortcutsGrid') as HTMLElement
+    const toKbd = (combo: string) => combo.split('+').map(key => `<kbd>${this.escapeHtml(key)}</kbd>`).join(' + ')
+
+    const items = this.shortcutManager.getShortcuts().map(shortcut => `
+      <div class="shortcut-item">
+        <span>${shortcut.label}</span>
+        <button class="shortcut-keys${this.recordingShortcut === shortcut.id ? ' recording' : ''}" data-shortcut="${shortcut.id}" title="Change shortcut">
+          ${this.recordingShortcut === shortcut.id ? 'Press keys… (Esc cancels)' : shortcut.keys.map(toKbd).join(' / ')}
+        </button>
+      </div>
+    `)
+
+    // Opening the popup is a browser-level command, so Chrome owns that binding
+    if (typeof chrome !== 'undefined' && chrome.commands) {
+      const commands = await chrome.commands.getAll()
+      const openCommand = commands.find((command: { name?: string }) => command.name === '_execute_action')
+      items.unshift(`
+        <div class="shortcut-item">
+          <span>Open Extension</span>
+          <button class="shortcut-keys" data-shortcut="browser" title="Change in Chrome's shortcut settings">
+            ${openCommand?.shortcut ? toKbd(openCommand.shortcut) : 'Not set'}
+          </button>
+        </div>
+      `)
+    }
+
+    shortcutsGrid.innerHTML = items.join('')
+  }
+
+  private updateQualityControl(container: HTMLElement): void {
+    const activeFormat = container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg'
+    const formatInfo = this.compressionManager.getFormatInfo(activeFormat)
+    const isTargetMode = (container.querySelector('#targetSizeEnabled') as HTMLInputElement).checked
+    const qualityGroup = container.querySelector('#quality')?.parentElement
+
+    // In target size mode the quality is picked automatically
+    if (qualityGroup) {
+      const isEnabled = formatInfo.supportsQuality && !isTargetMode
+      qualityGroup.style.opacity = isEnabled ? '1' : '0.5'
+      const qualitySlider = qualityGroup.querySelector('#quality') as HTMLInputElement
+      qualitySlider.disabled = !isEnabled
+    }
+  }
+
+  // Offsets from neutral carry a sign; everything else shows its unit
+  private formatAdjustment(id: string, value: number): string {
+    const sign = value > 0 ? '+' : ''
+    switch (id) {
+      case 'exposure':
+        return `${sign}${value.toFixed(1)} EV`
+      case 'temperature':
+      case 'tint':
+      case 'vibrance':
+      case 'highlights':
+      case 'shadows':
+      case 'vignette':
+        return `${sign}${Math.round(value)}`
+      case 'hue':
+        return `${Math.round(value)}°`
+      case 'blur':
+        return `${Math.round(value)}px`
+      case 'sharpenRadius':
+        return `${value.toFixed(1)}px`
+      default:
+        return `${Math.round(value)}%`
+    }
+  }
+
+  private getControlLabel(input: HTMLInputElement): string {
+    const label = input.parentElement?.querySelector('.control-label')
+    return label?.textContent?.trim() || input.id
+  }
+
+  private getCropLabel(settings: { x: number; y: number; width: number; height: number }): string {
+    const state = this.editStack.getState()
+    if (state.crop.unit === 'pixels' && this.currentImage) {
+      const size = this.renderPipeline.getTransformedSize(this.currentImage, state.transform)
+      const pixels = this.cropManager.toPixels({ ...state.crop, ...settings }, size.width, size.height)
+      return `Crop ${pixels.width} × ${pixels.height} px`
+    }
+    return `Crop ${Math.round(settings.width)}% × ${Math.round(settings.height)}%`
+  }
+
+  private setResizeMode(mode: ResizeMode): void {
+    const current = this.editStack.getState().resize
+    const changes: Partial<ResizeOptions> = { mode }
+
+    // Start box-based modes from the current output size
+    if (mode !== 'none' && this.currentImage && (!current.width || !current.height)) {
+      const size = this.renderPipeline.getCroppedSize(this.currentImage, this.editStack.getState())
+      changes.width = size.width
+      changes.height = size.height
+    }
+
+    this.editStack.push('resize', this.getResizeLabel({ ...current, ...changes }), { resize: changes })
+    this.editStack.commit()
+  }
+
+  private getResizeLabel(resize: ResizeOptions): string {
+    switch (resize.mode) {
+      case 'exact':
+        return resize.maintainAspectRatio ? `Resize to ${resize.width}px wide` : `Resize to ${resize.width} × ${resize.height}`
+      case 'fit':
+        return `Fit within ${resize.width} × ${resize.height}`
+      case 'fill':
+        return `Fill ${resize.width} × ${resize.height}`
+      case 'percent':
+        return `Scale to ${resize.percent}%`
+      case 'longEdge':
+        return `Limit long edge to ${resize.longEdge}px`
+      default:
+        return 'Original size'
+    }
+  }
+
+  private syncResizeControls(container: HTMLElement, state: EditState): void {
+    const { resize } = state
+    const visibleFields: Record<ResizeMode, string[]> = {
+      none: [],
+      exact: ['width', 'height', 'maintainAspectRatio'],
+      fit: ['width', 'height'],
+      fill: ['width', 'height'],
+      percent: ['percent'],
+      longEdge: ['longEdge']
+    }
+
+    container.querySelectorAll('.resize-mode-btn').forEach(button => {
+      button.classList.toggle('active', button.getAttribute('data-mode') === resize.mode)
+    })
+    container.querySelectorAll<HTMLElement>('[data-resize-field]').forEach(field => {
+      field.style.display = visibleFields[resize.mode].includes(field.dataset.resizeField!) ? '' : 'none'
+    })
+
+    const outputSize = this.currentImage ? this.renderPipeline.getOutputSize(this.currentImage, state) : null
+    const values: Record<string, number> = {
+      resizeWidth: resize.width,
+      resizeHeight: resize.mode === 'exact' && resize.maintainAspectRatio && outputSize ? outputSize.height : resize.height,
+      resizePercent: resize.percent,
+      resizeLongEdge: resize.longEdge
+    }
+    Object.entries(values).forEach(([id, value]) => {
+      const input = container.querySelector(`#${id}`) as HTMLInputElement
+      if (document.activeElement !== input && value) input.value = value.toString()
+    })
+
+    // With a locked ratio the height follows the width
+    const heightInput = container.querySelector('#resizeHeight') as HTMLInputElement
+    const aspectCheckbox = container.querySelector('#maintainAspectRatio') as HTMLInputElement
+    heightInput.disabled = resize.mode === 'exact' && resize.maintainAspectRatio
+    aspectCheckbox.checked = resize.maintainAspectRatio
+
+    const resizeOutput = container.querySelector('#resizeOutput') as HTMLElement
+    resizeOutput.textContent = outputSize ? `Output: ${outputSize.width} × ${outputSize.height} px` : ''
+  }
+
+  private syncFromState(container: HTMLElement, state: EditState): void {
+    // Adjustment sliders
+    const adjustments: Record<string, number> = {
+      exposure: state.filters.exposure,
+      brightness: state.filters.brightness,
+      contrast: state.filters.contrast,
+      highlights: state.filters.highlights,
+      shadows: state.filters.shadows,
+      temperature: state.filters.temperature,
+      tint: state.filters.tint,
+      saturation: state.filters.saturation,
+      vibrance: state.filters.vibrance,
+      hue: state.filters.hue,
+      vignette: state.filters.vignette,
+      blur: state.filters.blur,
+      lutIntensity: state.filters.lutIntensity,
+      sharpenAmount: state.filters.sharpenAmount,
+      sharpenRadius: state.filters.sharpenRadius,
+      cropLeft: state.crop.x,
+      cropTop: state.crop.y,
+      cropWidth: state.crop.width,
+      cropHeight: state.crop.height
+    }
+
+    Object.entries(adjustments).forEach(([id, value]) => {
+      const slider = container.querySelector(`#${id}`) as HTMLInputElement | null
+      if (!slider) return
+
+      slider.value = value.toString()
+      const valueDisplay = slider.parentElement?.querySelector('.control-value')
+      if (valueDisplay) valueDisplay.textContent = this.formatAdjustment(id, value)
+    })
+
+    this.syncFilterButtons(container, state.filters)
+    this.syncToneControls(container, state.filters)
+
+    // Straighten keeps its half-degree steps
+    const straightenSlider = container.querySelector('#straighten') as HTMLInputElement
+    straightenSlider.value = state.transform.straighten.toString()
+    const straightenValue = straightenSlider.parentElement?.querySelector('.control-value')
+    if (straightenValue) straightenValue.textContent = `${state.transform.straighten}°`
+
+    // Ratio lock
+    const ratioId = this.getCropRatioId(state.crop.aspectRatio)
+    container.querySelectorAll('.crop-ratio-btn').forEach(button => {
+      button.classList.toggle('active', button.getAttribute('data-ratio') === ratioId)
+    })
+    const customRatio = container.querySelector('#cropCustomRatio') as HTMLElement
+    customRatio.style.display = ratioId === 'custom' ? 'flex' : 'none'
+    if (ratioId === 'custom') {
+      const ratioWidth = container.querySelector('#cropRatioWidth') as HTMLInputElement
+      const ratioHeight = container.querySelector('#cropRatioHeight') as HTMLInputElement
+      // Undo can bring back a ratio the fields no longer describe
+      if (Math.abs(parseFloat(ratioWidth.value) / parseFloat(ratioHeight.value) - state.crop.aspectRatio!) > 0.001) {
+        ratioWidth.value = (Math.round(state.crop.aspectRatio! * 100) / 100).toString()
+        ratioHeight.value = '1'
+      }
+    }
+
+    // Crop units and pixel fields
+    container.querySelectorAll('.crop-unit-btn').forEach(button => {
+      button.classList.toggle('active', button.getAttribute('data-unit') === state.crop.unit)
+    })
+    const pixelFields = container.querySelector('#cropPixelFields') as HTMLElement
+    const percentFields = container.querySelector('#cropPercentFields') as HTMLElement
+    pixelFields.style.display = state.crop.unit === 'pixels' ? '' : 'none'
+    percentFields.style.display = state.crop.unit === 'pixels' ? 'none' : ''
+    if (this.currentImage) {
+      const size = this.renderPipeline.getTransformedSize(this.currentImage, state.transform)
+      const pixels = this.cropManager.toPixels(state.crop, size.width, size.height)
+      this.cropManager.setImageSize(size.width, size.height)
+      const fields: Record<string, number> = {
+        cropPixelX: pixels.x,
+        cropPixelY: pixels.y,
+        cropPixelWidth: pixels.width,
+        cropPixelHeight: pixels.height
+      }
+      Object.entries(fields).forEach(([id, value]) => {
+        const input = container.querySelector(`#${id}`) as HTMLInputElement
+        input.max = (id === 'cropPixelX' || id === 'cropPixelWidth' ? size.width : size.height).toString()
+        // Leave the field being typed in alone until it loses focus
+        if (document.activeElement !== input) input.value = value.toString()
+      })
+    }
+
+    // Crop overlay
+    this.cropManager.setCropSettings(state.crop)
+    this.updateCropControls(container, state.crop.enabled)
+    if (state.crop.enabled && this.currentImage) {
+      this.applyCropOverlay(container)
+    } else {
+      this.cropManager.removeCropOverlay()
+    }
+
+    this.syncResizeControls(container, state)
+
+    this.schedulePreview(container)
+
+    this.renderHistory(container)
+    this.scheduleCompression(container)
+  }
+
+  private renderHistory(container: HTMLElement): void {
+    const historyList = container.querySelector('#historyList') as HTMLElement
+    const undoBtn = container.querySelector('#undoBtn') as HTMLButtonElement
+    const redoBtn = container.querySelector('#redoBtn') as HTMLButtonElement
+
+    undoBtn.disabled = !this.editStack.canUndo()
+    redoBtn.disabled = !this.editStack.canRedo()
+
+    const operations = this.editStack.getOperations()
+    if (operations.length === 0) {
+      historyList.innerHTML = '<li class="history-empty">No edits yet</li>'
+      return
+    }
+
+    historyList.innerHTML = operations.map((op, index) => `
+      <li class="history-item${op.enabled ? '' : ' disabled'}">
+        <span class="history-index">${index + 1}</span>
+        <span class="history-label">${this.escapeHtml(op.label)}</span>
+        <button class="history-toggle" data-id="${op.id}" title="${op.enabled ? 'Turn step off' : 'Turn step on'}">
+          <svg class="icon icon-sm" viewBox="0 0 24 24">
+            ${op.enabled
+              ? '<path stroke-linecap="round" stroke-linejoin="round" d="M2.036 12.322a1.012 1.012 0 0 1 0-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178Z"/><path stroke-linecap="round" stroke-linejoin="round" d="M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z"/>'
+              : '<path stroke-linecap="round" stroke-linejoin="round" d="M3.98 8.223A10.477 10.477 0 0 0 1.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.451 10.451 0 0 1 12 4.5c4.756 0 8.773 3.162 10.065 7.498a10.522 10.522 0 0 1-4.293 5.774M6.228 6.228 3 3m3.228 3.228 3.65 3.65m7.894 7.894L21 21m-3.228-3.228-3.65-3.65m0 0a3 3 0 1 0-4.243-4.243m4.242 4.242L9.88 9.88"/>'}
+          </svg>
+        </button>
+        <button class="history-remove" data-id="${op.id}" title="Remove step">
+          <svg class="icon icon-sm" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/>
+          </svg>
+        </button>
+      </li>
+    `).join('')
+  }
+
+  private scheduleCompression(container: HTMLElement): void {
+    window.clearTimeout(this.compressionTimer)
+    this.compressionTimer = window.setTimeout(() => this.updateCompression(container), 100)
   }
 
   private updateThemeIcon(button: HTMLButtonElement): void {
@@ -846,11 +2803,19 @@ export class ImageProcessor {
   private resetToUpload(uploadSection: HTMLElement, imageSection: HTMLElement): void {
     // Reset all states
     this.currentImage = null
+    this.previewSource = null
+    this.thumbnailSource = null
     this.currentFile = null
+    this.currentMetadata = null
     this.compressionResult = null
-    this.isCropEnabled = false
+    this.targetSizeMissed = false
+    this.compareBefore = null
+    this.renderWorker.cancel()
+    this.compareViewer.clear()
+    this.histogram = null
+    this.activeRecipe = null
     this.activeSections.clear()
-    this.cropManager.resetCrop()
+    this.editStack.reset()
 
     // Show upload section, hide image section
     uploadSection.classList.remove('collapsed')
@@ -878,17 +2843,298 @@ export class ImageProcessor {
     }
   }
 
-  private toggleCrop(
-    button: HTMLButtonElement, 
-    status: HTMLElement, 
-    controls: HTMLElement,
-    container: HTMLElement
-  ): void {
-    this.isCropEnabled = !this.isCropEnabled
-    
-    if (this.isCropEnabled) {
-      // Enable crop
-      this.cropManager.setCropSettings({ enabled: true })
+  private applyTransform(change: TransformChange): void {
+    const state = this.editStack.getState()
+    const { transform } = state
+    const changes: EditChanges = {}
+    // A single flip mirrors the turned image, so the stored turn has to run the other way
+    const mirrored = transform.flipHorizontal !== transform.flipVertical
+
+    switch (change) {
+      case 'rotateRight':
+      case 'rotateLeft': {
+        const step = (change === 'rotateRight') !== mirrored ? 90 : 270
+        changes.transform = { rotation: ((transform.rotation + step) % 360) as QuarterTurn }
+        break
+      }
+      case 'flipHorizontal':
+        changes.transform = { flipHorizontal: !transform.flipHorizontal, straighten: -transform.straighten }
+        break
+      case 'flipVertical':
+        changes.transform = { flipVertical: !transform.flipVertical, straighten: -transform.straighten }
+        break
+    }
+
+    if (state.crop.enabled) {
+      const { x, y, width, height, aspectRatio } = this.transformManager.mapCrop(state.crop, change)
+      changes.crop = { x, y, width, height, aspectRatio }
+    }
+
+    const labels: Record<TransformChange, string> = {
+      rotateLeft: 'Rotate 90° left',
+      rotateRight: 'Rotate 90° right',
+      flipHorizontal: 'Flip horizontal',
+      flipVertical: 'Flip vertical'
+    }
+    this.editStack.push('transform', labels[change], changes)
+  }
+
+  // Renders at most once a frame, however many edits arrive in between
+  private schedulePreview(container: HTMLElement): void {
+    if (this.previewFrame) return
+    this.previewFrame = requestAnimationFrame(() => {
+      this.previewFrame = 0
+      this.updatePreview(container, this.editStack.getState())
+    })
+  }
+
+  // The preview shows transformed and filtered pixels, rendered at preview size by the same
+  // code as the export. Crop stays an overlay so the crop box lines up with what gets cropped.
+  private updatePreview(container: HTMLElement, state: EditState): void {
+    if (!this.currentImage) return
+
+    const { transform, filters } = state
+    if (this.transformManager.isIdentity(transform) && this.filterManager.isIdentity(filters)) {
+      if (this.previewKey === '') return
+      this.previewKey = ''
+      this.setPreviewSource(container, this.sourceUrl)
+      return
+    }
+
+    if (!this.previewSource) {
+      this.previewSource = this.renderPipeline.createPreviewSource(this.currentImage)
+    }
+    const view = this.getPreviewView(state)
+    // Crop only matters to the vignette, so moving the crop box doesn't re-render otherwise
+    const crop = filters.vignette !== 0 ? state.crop : null
+    const key = JSON.stringify({ transform, filters, crop, scale: view.scale })
+    if (key === this.previewKey) return
+    this.previewKey = key
+
+    const rendered = this.renderPipeline.renderPreview(this.previewSource, { transform, filters, crop: state.crop }, view.scale)
+    canvasToBlob(rendered, 'image/png').then(blob => {
+      // A newer edit may have been rendered while this one was encoding
+      if (key !== this.previewKey) return
+      this.setPreviewSource(container, URL.createObjectURL(blob))
+    }).catch(error => console.error('Failed to update preview:', error))
+  }
+
+  // Blur and sharpen radii are measured in output pixels; convert them to preview pixels
+  private getPreviewView(state: EditState): FilterView {
+    const { filters } = state
+    if (filters.blur === 0 && filters.sharpenAmount === 0) return { scale: 1 }
+
+    const source = this.renderPipeline.getSourceSize(this.currentImage!)
+    const croppedSize = this.renderPipeline.getCroppedSize(this.currentImage!, state)
+    const outputSize = this.renderPipeline.getOutputSize(this.currentImage!, state)
+    return { scale: (this.previewSource!.width / source.width) * (croppedSize.width / outputSize.width) }
+  }
+
+  private setPreviewSource(container: HTMLElement, url: string): void {
+    const previewImage = container.querySelector('#previewImage') as HTMLImageElement
+    if (previewImage.src.startsWith('blob:')) {
+      URL.revokeObjectURL(previewImage.src)
+    }
+
+    // The crop overlay is positioned from the displayed size, known once the new pixels load
+    previewImage.addEventListener('load', () => {
+      if (this.currentImage && this.editStack.getState().crop.enabled) this.applyCropOverlay(container)
+    }, { once: true })
+    previewImage.src = url
+  }
+
+  private attachToneListeners(container: HTMLElement): void {
+    const channelButtons = container.querySelectorAll<HTMLButtonElement>('.tone-channel-btn')
+    channelButtons.forEach(button => {
+      button.addEventListener('click', () => {
+        this.toneChannel = button.dataset.channel as ToneChannel
+        channelButtons.forEach(btn => btn.classList.toggle('active', btn === button))
+        this.syncToneControls(container, this.editStack.getState().filters)
+      })
+    })
+
+    // Gamma runs on a log scale so 1.0 sits in the middle of the slider
+    const levelInputs: Record<string, keyof LevelsChannel> = {
+      levelsBlack: 'black',
+      levelsGamma: 'gamma',
+      levelsWhite: 'white'
+    }
+    Object.entries(levelInputs).forEach(([id, key]) => {
+      const input = container.querySelector(`#${id}`) as HTMLInputElement
+      input.addEventListener('input', () => {
+        const { levels } = this.editStack.getState().filters
+        const channel = { ...levels[this.toneChannel] }
+        const value = parseInt(input.value)
+
+        if (key === 'gamma') {
+          channel.gamma = Math.round(Math.pow(10, value / 100) * 100) / 100
+        } else if (key === 'black') {
+          channel.black = Math.min(value, channel.white - 1)
+        } else {
+          channel.white = Math.max(value, channel.black + 1)
+        }
+
+        this.editStack.push(
+          'adjustment',
+          `Levels ${this.getToneChannelLabel(this.toneChannel)}: ${channel.black} / ${channel.gamma.toFixed(2)} / ${channel.white}`,
+          { filters: { levels: { ...levels, [this.toneChannel]: channel } } },
+          `levels-${this.toneChannel}`
+        )
+      })
+      input.addEventListener('change', () => this.editStack.commit())
+    })
+
+    const curveCanvas = container.querySelector('#curveCanvas') as HTMLCanvasElement
+    this.curveEditor = new CurveEditor(curveCanvas, this.toneManager)
+    curveCanvas.addEventListener('curveUpdate', (e) => {
+      this.setCurve(this.toneChannel, (e as CustomEvent<CurvePoint[]>).detail)
+    })
+    curveCanvas.addEventListener('curveCommit', () => this.editStack.commit())
+
+    container.querySelectorAll<HTMLButtonElement>('.tone-reset-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        const { levels } = this.editStack.getState().filters
+        if (button.dataset.reset === 'curves') {
+          this.setCurve(this.toneChannel, this.toneManager.getDefaultCurves()[this.toneChannel])
+          this.editStack.commit()
+          return
+        }
+
+        this.editStack.push('adjustment', `Reset levels ${this.getToneChannelLabel(this.toneChannel)}`, {
+          filters: { levels: { ...levels, [this.toneChannel]: this.toneManager.getDefaultLevels()[this.toneChannel] } }
+        })
+      })
+    })
+  }
+
+  private setCurve(channel: ToneChannel, points: CurvePoint[]): void {
+    const { curves } = this.editStack.getState().filters
+    this.editStack.push(
+      'adjustment',
+      `Curve ${this.getToneChannelLabel(channel)} (${points.length} points)`,
+      { filters: { curves: { ...curves, [channel]: points } } },
+      `curves-${channel}`
+    )
+  }
+
+  private syncToneControls(container: HTMLElement, filters: EditState['filters']): void {
+    const { black, gamma, white } = filters.levels[this.toneChannel]
+    const values: Record<string, { value: number; text: string }> = {
+      levelsBlack: { value: black, text: black.toString() },
+      levelsGamma: { value: Math.round(Math.log10(gamma) * 100), text: gamma.toFixed(2) },
+      levelsWhite: { value: white, text: white.toString() }
+    }
+    Object.entries(values).forEach(([id, { value, text }]) => {
+      const slider = container.querySelector(`#${id}`) as HTMLInputElement
+      slider.value = value.toString()
+      const valueDisplay = slider.parentElement?.querySelector('.control-value')
+      if (valueDisplay) valueDisplay.textContent = text
+    })
+
+    const colors: Record<ToneChannel, string> = {
+      rgb: 'currentColor',
+      red: 'rgb(239, 68, 68)',
+      green: 'rgb(34, 197, 94)',
+      blue: 'rgb(59, 130, 246)'
+    }
+    this.curveEditor?.setCurve(filters.curves[this.toneChannel], colors[this.toneChannel])
+  }
+
+  private getToneChannelLabel(channel: ToneChannel): string {
+    return channel === 'rgb' ? 'RGB' : channel.charAt(0).toUpperCase() + channel.slice(1)
+  }
+
+  private renderHistogram(container: HTMLElement): void {
+    const histogram = this.histogram
+    if (!histogram) return
+
+    const canvas = container.querySelector('#histogramCanvas') as HTMLCanvasElement
+    this.histogramAnalyzer.draw(canvas, histogram, this.histogramChannel)
+
+    // Clipping under 0.1% is normal for specular highlights and deep shadows
+    const warnings = container.querySelector('#histogramWarnings') as HTMLElement
+    const clipping = [
+      { share: histogram.clippedHighlights, label: 'Blown highlights' },
+      { share: histogram.clippedShadows, label: 'Crushed shadows' }
+    ].filter(({ share }) => share >= 0.001)
+    warnings.innerHTML = clipping
+      .map(({ share, label }) => `<div class="histogram-warning">${label}: ${this.formatShare(share)} of pixels</div>`)
+      .join('')
+
+    const stats = histogram.stats[this.histogramChannel === 'rgb' ? 'luminance' : this.histogramChannel]
+    const fitsPalette = histogram.uniqueColors <= this.histogramAnalyzer.paletteLimit
+    const statsElement = container.querySelector('#histogramStats') as HTMLElement
+    statsElement.innerHTML = `
+      <div class="info-item">
+        <span class="info-label">Mean</span>
+        <span class="info-value">${stats.mean.toFixed(1)}</span>
+      </div>
+      <div class="info-item">
+        <span class="info-label">Median</span>
+        <span class="info-value">${stats.median}</span>
+      </div>
+      <div class="info-item">
+        <span class="info-label">Unique colors</span>
+        <span class="info-value">${histogram.uniqueColors.toLocaleString()}</span>
+      </div>
+      <div class="info-item">
+        <span class="info-label">Best suited to</span>
+        <span class="info-value">${fitsPalette ? 'PNG-8 (palette)' : histogram.hasTransparency ? 'PNG / WebP' : 'JPEG / WebP'}</span>
+      </div>
+    `
+  }
+
+  private formatShare(share: number): string {
+    return `${(share * 100).toFixed(share < 0.01 ? 2 : 1)}%`
+  }
+
+  private setPreviewMode(container: HTMLElement, mode: 'edit' | CompareMode): void {
+    this.previewMode = mode
+    container.querySelectorAll('.preview-mode-btn').forEach(button => {
+      button.classList.toggle('active', button.getAttribute('data-mode') === mode)
+    })
+
+    const previewContainer = container.querySelector('#previewContainer') as HTMLElement
+    const compareView = container.querySelector('#compareView') as HTMLElement
+    previewContainer.style.display = mode === 'edit' ? '' : 'none'
+    compareView.style.display = mode === 'edit' ? 'none' : 'block'
+    if (mode === 'edit') return
+
+    this.compareViewer.setMode(mode)
+    if (this.compressionResult && this.compareBefore) {
+      this.updateComparison(container)
+    } else {
+      this.scheduleCompression(container)
+    }
+  }
+
+  // The original keeps the geometry but not the filters, so both sides line up pixel for pixel
+  private updateComparison(container: HTMLElement): void {
+    const before = this.compareBefore
+    if (this.previewMode === 'edit' || !this.currentFile || !this.compressionResult || !before) return
+
+    this.compareViewer.setImages(before, this.compressionResult.blob, before.width, before.height)
+
+    const beforeLabel = container.querySelector('#compareBeforeLabel') as HTMLElement
+    const afterLabel = container.querySelector('#compareAfterLabel') as HTMLElement
+    beforeLabel.textContent = `Original · ${this.compressionManager.formatFileSize(this.currentFile.size)}`
+    afterLabel.textContent = `Output · ${this.compressionManager.formatFileSize(this.compressionResult.compressedSize)}`
+  }
+
+  private toggleCrop(): void {
+    const enabled = !this.editStack.getState().crop.enabled
+    this.editStack.push('crop', enabled ? 'Enable crop' : 'Disable crop', { crop: { enabled } })
+  }
+
+  private updateCropControls(container: HTMLElement, enabled: boolean): void {
+    const button = container.querySelector('#toggleCropBtn') as HTMLButtonElement
+    const status = container.querySelector('#cropStatus') as HTMLElement
+    const controls = container.querySelector('#cropControls') as HTMLElement
+    const isShown = controls.style.display === 'block'
+
+    if (enabled === isShown) return
+
+    if (enabled) {
       button.innerHTML = `
         <svg class="icon icon-sm" viewBox="0 0 24 24">
           <path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/>
@@ -907,10 +3153,7 @@ export class ImageProcessor {
       `
       
       controls.style.display = 'block'
-      this.updateCrop(container)
     } else {
-      // Disable crop
-      this.cropManager.setCropSettings({ enabled: false })
       button.innerHTML = `
         <svg class="icon icon-sm" viewBox="0 0 24 24">
           <path stroke-linecap="round" stroke-linejoin="round" d="M7.5 3.75H6A2.25 2.25 0 0 0 3.75 6v1.5M16.5 3.75H18A2.25 2.25 0 0 1 20.25 6v1.5m0 9V18A2.25 2.25 0 0 1 18 20.25h-1.5m-9 0H6A2.25 2.25 0 0 0 3.75 18v-1.5"/>
@@ -929,29 +3172,110 @@ export class ImageProcessor {
       `
       
       controls.style.display = 'none'
-      this.removeCropOverlay(container)
-      this.updateCompression(container)
     }
   }
 
-  private updateCrop(container: HTMLElement): void {
-    if (!this.currentImage || !this.isCropEnabled) return
+  private updateCrop(container: HTMLElement, changedId: string): void {
+    const state = this.editStack.getState()
+    if (!this.currentImage || !state.crop.enabled) return
 
     const cropLeft = parseInt((container.querySelector('#cropLeft') as HTMLInputElement).value)
     const cropTop = parseInt((container.querySelector('#cropTop') as HTMLInputElement).value)
     const cropWidth = parseInt((container.querySelector('#cropWidth') as HTMLInputElement).value)
     const cropHeight = parseInt((container.querySelector('#cropHeight') as HTMLInputElement).value)
+    let settings = { x: cropLeft, y: cropTop, width: cropWidth, height: cropHeight }
+
+    // With a locked ratio the slider that moved drives the other dimension
+    const { aspectRatio } = state.crop
+    if (aspectRatio) {
+      const imageAspect = this.getCropImageAspect(state)
+      const width = changedId === 'cropHeight' ? cropHeight * aspectRatio / imageAspect : cropWidth
+      const fitted = this.cropManager.fitToRatio({ ...state.crop, ...settings, width }, aspectRatio, imageAspect)
+      settings = { x: fitted.x, y: fitted.y, width: fitted.width, height: fitted.height }
+    }
 
-    this.cropManager.setCropSettings({
-      x: cropLeft,
-      y: cropTop,
-      width: cropWidth,
-      height: cropHeight,
-      enabled: true
-    })
+    this.editStack.push('crop', this.getCropLabel(settings), { crop: settings }, 'crop-sliders')
+  }
+
+  private updatePixelCrop(container: HTMLElement, changedId: string): void {
+    const state = this.editStack.getState()
+    if (!this.currentImage || !state.crop.enabled) return
+
+    const read = (id: string) => parseInt((container.querySelector(`#${id}`) as HTMLInputElement).value)
+    const rect: PixelRect = {
+      x: read('cropPixelX'),
+      y: read('cropPixelY'),
+      width: read('cropPixelWidth'),
+      height: read('cropPixelHeight')
+    }
+    if (Object.values(rect).some(value => isNaN(value))) return
+
+    const { aspectRatio } = state.crop
+    if (aspectRatio && changedId === 'cropPixelHeight') {
+      rect.width = Math.round(rect.height * aspectRatio)
+    } else if (aspectRatio) {
+      rect.height = Math.round(rect.width / aspectRatio)
+    }
 
-    this.applyCropOverlay(container)
-    this.updateCompression(container)
+    this.setPixelCrop(state, rect)
+  }
+
+  private nudgeCrop(deltaX: number, deltaY: number, resize: boolean): void {
+    const state = this.editStack.getState()
+    const size = this.renderPipeline.getTransformedSize(this.currentImage!, state.transform)
+    const rect = this.cropManager.toPixels(state.crop, size.width, size.height)
+    const { aspectRatio } = state.crop
+
+    if (resize) {
+      rect.width = Math.max(1, rect.width + deltaX)
+      rect.height = Math.max(1, rect.height + deltaY)
+      if (aspectRatio && deltaX) rect.height = Math.round(rect.width / aspectRatio)
+      if (aspectRatio && deltaY) rect.width = Math.round(rect.height * aspectRatio)
+      // A locked box that would no longer fit stays as it is rather than losing its ratio
+      if (rect.x + rect.width > size.width || rect.y + rect.height > size.height) return
+    } else {
+      rect.x = Math.max(0, Math.min(size.width - rect.width, rect.x + deltaX))
+      rect.y = Math.max(0, Math.min(size.height - rect.height, rect.y + deltaY))
+    }
+
+    this.setPixelCrop(state, rect, 'crop-keyboard')
+  }
+
+  private setPixelCrop(state: EditState, rect: PixelRect, mergeKey = 'crop-pixels'): void {
+    const size = this.renderPipeline.getTransformedSize(this.currentImage!, state.transform)
+    const crop = this.cropManager.fromPixels(rect, size.width, size.height)
+    this.editStack.push('crop', this.getCropLabel(crop), { crop }, mergeKey)
+  }
+
+  private setCropRatio(aspectRatio: number | null, label: string, mergeKey?: string, extra: EditChanges = {}): void {
+    const state = this.editStack.getState()
+    if (!this.currentImage) return
+
+    const crop = aspectRatio
+      ? this.cropManager.fitToRatio(state.crop, aspectRatio, this.getCropImageAspect(state))
+      : { ...state.crop, aspectRatio: null }
+    const { x, y, width, height } = crop
+    this.editStack.push('crop', label, { ...extra, crop: { x, y, width, height, aspectRatio, enabled: true } }, mergeKey)
+  }
+
+  private setCustomCropRatio(container: HTMLElement, mergeKey?: string): void {
+    const width = parseFloat((container.querySelector('#cropRatioWidth') as HTMLInputElement).value)
+    const height = parseFloat((container.querySelector('#cropRatioHeight') as HTMLInputElement).value)
+    if (!(width > 0) || !(height > 0)) return
+
+    this.setCropRatio(width / height, `Crop ratio ${width}:${height}`, mergeKey)
+  }
+
+  // Crop percentages refer to the rotated and straightened image
+  private getCropImageAspect(state: EditState): number {
+    const { width, height } = this.renderPipeline.getTransformedSize(this.currentImage!, state.transform)
+    return width / height
+  }
+
+  private getCropRatioId(aspectRatio: number | null): string {
+    if (!aspectRatio) return 'free'
+    const match = CROP_RATIOS.find(ratio => Math.abs(ratio.ratio - aspectRatio) < 0.001)
+    return match ? match.id : 'custom'
   }
 
   private applyCropOverlay(container: HTMLElement): void {
@@ -959,14 +3283,6 @@ export class ImageProcessor {
     this.cropManager.applyCropOverlay(previewImage)
   }
 
-  private removeCropOverlay(container: HTMLElement): void {
-    const previewContainer = container.querySelector('.preview-container')
-    const overlay = previewContainer?.querySelector('.crop-overlay')
-    if (overlay) {
-      overlay.remove()
-    }
-  }
-
   private toggleSection(header: HTMLElement, sectionName: string): void {
     const content = header.nextElementSibling as HTMLElement
     const toggle = header.querySelector('.tool-toggle svg') as SVGElement
@@ -1004,17 +3320,29 @@ export class ImageProcessor {
       }
 
       this.showProgress(imageSection, 40)
-      const imageUrl = await this.fileHandler.loadImage(file)
+      const loaded = await this.fileHandler.loadImage(file)
+      const metadata = loaded.metadata
       
       this.showProgress(imageSection, 60)
-      previewImage.src = imageUrl
+      previewImage.src = loaded.dataUrl
       
       previewImage.onload = async () => {
-        this.currentImage = previewImage
+        // Transforms swap the preview's pixels, so only the first load sets up the image
+        previewImage.onload = null
+        this.currentImage = this.canvas
+        this.sourceUrl = previewImage.src
+        this.previewKey = ''
+        this.previewSource = null
+        this.thumbnailSource = null
         this.currentFile = file
+        this.currentMetadata = loaded
         this.canvas.width = previewImage.naturalWidth
         this.canvas.height = previewImage.naturalHeight
         this.ctx.drawImage(previewImage, 0, 0)
+        this.renderWorker.setSource(this.canvas).catch(error => {
+          console.error('Failed to prepare image for processing:', error)
+          this.toastManager.error('Failed to prepare image for processing')
+        })
         
         this.showProgress(imageSection, 80)
         
@@ -1038,6 +3366,7 @@ export class ImageProcessor {
               <span class="info-label">Format</span>
               <span class="info-value">${fileInfo.type}</span>
             </div>
+            ${this.getMetadataInfo(metadata)}
           </div>
         `
         
@@ -1050,16 +3379,10 @@ export class ImageProcessor {
           uploadSection.classList.add('collapsed')
           imageSection.style.display = 'block'
           
-          // Auto-expand compression section
-          this.activeSections.add('compression')
-          const compressionHeader = imageSection.querySelector('[data-section="compression"]') as HTMLElement
-          const compressionContent = compressionHeader.nextElementSibling as HTMLElement
-          const compressionToggle = compressionHeader.querySelector('.tool-toggle svg') as SVGElement
-          compressionHeader.classList.add('active')
-          compressionContent.classList.add('expanded')
-          compressionToggle.innerHTML = '<path stroke-linecap="round" stroke-linejoin="round" d="m4.5 15.75 7.5-7.5 7.5 7.5"/>'
+          this.expandPreferredSections(imageSection)
+          this.renderCustomFilters(imageSection.parentElement as HTMLElement)
           
-          this.updateCompression(imageSection.parentElement as HTMLElement)
+          this.syncFromState(imageSection.parentElement as HTMLElement, this.editStack.getState())
           this.toastManager.success('Image loaded successfully!')
         }, 500)
       }
@@ -1070,6 +3393,48 @@ export class ImageProcessor {
     }
   }
 
+  private getMetadataInfo(metadata: ImageMetadata): string {
+    const orientations = [
+      'Normal', 'Mirrored', 'Rotated 180°', 'Flipped vertically',
+      'Mirrored, rotated 90° CCW', 'Rotated 90° CW', 'Mirrored, rotated 90° CW', 'Rotated 90° CCW'
+    ]
+    // Model names usually repeat the make ("Canon" / "Canon EOS R5")
+    const camera = metadata.model && metadata.make && !metadata.model.startsWith(metadata.make)
+      ? `${metadata.make} ${metadata.model}`
+      : metadata.model || metadata.make
+    const items: Array<[label: string, value: string | undefined]> = [
+      ['Camera', camera],
+      ['Lens', metadata.lens],
+      ['Taken', metadata.dateTaken],
+      ['Exposure', metadata.exposure],
+      ['Location', metadata.gps
+        ? `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}` +
+          (metadata.gps.altitude !== undefined ? ` · ${Math.round(metadata.gps.altitude)} m` : '')
+        : undefined],
+      ['Color Profile', metadata.iccProfile],
+      ['Orientation', metadata.orientation > 1 ? `${orientations[metadata.orientation - 1]} · corrected` : undefined],
+      ['Author', metadata.artist],
+      ['Copyright', metadata.copyright]
+    ]
+
+    const found = items.filter(([, value]) => value)
+    if (found.length === 0) {
+      return `
+        <div class="info-item wide">
+          <span class="info-label">Metadata</span>
+          <span class="info-value">None found</span>
+        </div>
+      `
+    }
+
+    return found.map(([label, value]) => `
+      <div class="info-item${value!.length > 18 ? ' wide' : ''}">
+        <span class="info-label">${label}</span>
+        <span class="info-value">${this.escapeHtml(value!)}</span>
+      </div>
+    `).join('')
+  }
+
   private showProgress(container: HTMLElement, progress: number): void {
     const progressContainer = container.querySelector('#progressContainer') as HTMLElement
     const progressBar = container.querySelector('#progressBar') as HTMLElement
@@ -1087,67 +3452,128 @@ export class ImageProcessor {
     }
   }
 
-  private applyFilters(container: HTMLElement): void {
-    if (!this.currentImage) return
+  // Rendering and encoding run in the render worker; a newer call supersedes one still running.
+  // Resolves to the output for the current settings, or null if it failed or was superseded.
+  private async updateCompression(container: HTMLElement): Promise<CompressionResult | null> {
+    if (!this.currentImage || !this.currentFile) return null
 
-    const brightness = (container.querySelector('#brightness') as HTMLInputElement).value
-    const contrast = (container.querySelector('#contrast') as HTMLInputElement).value
-    const saturation = (container.querySelector('#saturation') as HTMLInputElement).value
-    const blur = (container.querySelector('#blur') as HTMLInputElement).value
-    const activeFilter = container.querySelector('.filter-btn.active')?.getAttribute('data-filter') || 'none'
+    const quality = parseInt((container.querySelector('#quality') as HTMLInputElement).value)
+    const activeFormat = container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg'
 
-    const previewImage = container.querySelector('#previewImage') as HTMLImageElement
-    
-    this.filterManager.applyFilters(previewImage, {
-      brightness: parseInt(brightness),
-      contrast: parseInt(contrast),
-      saturation: parseInt(saturation),
-      blur: parseInt(blur),
-      filter: activeFilter
-    })
+    // Crop and filters are baked into the pixels that get encoded
+    const state = this.editStack.getState()
 
-    // Update compression after filter changes
-    setTimeout(() => this.updateCompression(container), 100)
-  }
+    const metadataSelection = this.getMetadataSelection(container)
+    this.updateMetadataReport(container, metadataSelection, activeFormat)
 
-  private async updateCompression(container: HTMLElement): Promise<void> {
-    if (!this.currentImage || !this.currentFile) return
+    const targetSizeInfo = container.querySelector('#targetSizeInfo') as HTMLElement
+    const isTargetMode = (container.querySelector('#targetSizeEnabled') as HTMLInputElement).checked
+    const targetKb = parseInt((container.querySelector('#targetSize') as HTMLInputElement).value)
+    if (isTargetMode && (!targetKb || targetKb < 1)) return null
 
     try {
-      const quality = parseInt((container.querySelector('#quality') as HTMLInputElement).value)
-      const activeFormat = container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg'
-
-      // Apply crop if enabled
-      let imageToCompress = this.currentImage
-      if (this.isCropEnabled) {
-        const cropResult = this.cropManager.applyCrop(this.currentImage)
-        // Create a temporary image element from the cropped canvas
-        const tempImg = new Image()
-        tempImg.src = cropResult.dataUrl
-        await new Promise(resolve => {
-          tempImg.onload = resolve
-        })
-        imageToCompress = tempImg
-      }
-
-      const result = await this.compressionManager.compressImage(
-        imageToCompress,
-        {
+      const job = await this.renderWorker.run({
+        state,
+        compression: {
           quality,
           format: activeFormat,
-          maintainAspectRatio: true
+          maintainAspectRatio: state.resize.maintainAspectRatio,
+          metadata: metadataSelection?.keep
         },
-        this.currentFile.size
-      )
-
-      this.compressionResult = result
-      this.updateSizeInfo(container, result)
+        originalSize: this.currentFile.size,
+        target: isTargetMode
+          ? { targetSize: targetKb * 1024, allowResize: (container.querySelector('#targetAllowResize') as HTMLInputElement).checked }
+          : undefined,
+        // Measured on the rendered output, so pixel filters count but compression artifacts don't
+        histogram: this.activeSections.has('histogram'),
+        // The original keeps the geometry but not the filters, so both sides line up pixel for pixel
+        beforeFilters: this.previewMode === 'edit' ? undefined : this.editStack.getDefaultState().filters
+      }, percent => this.showProgress(container, percent))
+
+      // Superseded by a newer edit, which will update the results instead
+      if (!job) return null
+      this.hideProgress(container)
+
+      if (job.histogram) {
+        this.histogram = job.histogram
+        this.renderHistogram(container)
+      }
+      this.compareBefore = job.before ? toDomCanvas(job.before) : null
+      job.before?.close()
+
+      if ('scale' in job.result) this.updateTargetSizeInfo(container, job.result)
+      this.outputSize = { width: job.width, height: job.height }
+      this.compressionResult = job.result
+      this.targetSizeMissed = false
+      this.updateSizeInfo(container, job.result)
+      this.updateFilenamePreview(container)
+      this.updateComparison(container)
+      return job.result
     } catch (error) {
+      this.hideProgress(container)
+      if (error instanceof TargetSizeError) {
+        // The previous output is over budget for these settings, so it must not be downloaded
+        this.compressionResult = null
+        targetSizeInfo.classList.add('error')
+        targetSizeInfo.textContent = error.message
+        if (!this.targetSizeMissed) this.toastManager.error('Target file size cannot be met')
+        this.targetSizeMissed = true
+        return null
+      }
       console.error('Compression error:', error)
       this.toastManager.error('Failed to compress image')
+      return null
+    }
+  }
+
+  private getMetadataMode(container: HTMLElement): MetadataMode {
+    return (container.querySelector('.metadata-mode-btn.active')?.getAttribute('data-metadata') || 'strip') as MetadataMode
+  }
+
+  private getMetadataSelection(container: HTMLElement): MetadataSelection | null {
+    if (!this.currentMetadata) return null
+    return this.metadataWriter.select(
+      this.currentMetadata.rawMetadata,
+      this.currentMetadata.metadata,
+      this.getMetadataMode(container)
+    )
+  }
+
+  private updateMetadataReport(container: HTMLElement, selection: MetadataSelection | null, format: string): void {
+    const report = container.querySelector('#metadataReport') as HTMLElement
+    const formatInfo = this.compressionManager.getFormatInfo(format)
+    const keepsAny = !!selection && !!(selection.keep.exif || selection.keep.xmp || selection.keep.icc)
+
+    report.classList.remove('warning')
+    if (!selection || (!keepsAny && selection.removed.length === 0)) {
+      report.textContent = 'No metadata in the original file'
+    } else if (keepsAny && !this.metadataWriter.supportsFormat(formatInfo.mimeType)) {
+      report.classList.add('warning')
+      report.textContent = `${formatInfo.extension.toUpperCase()} can't carry metadata, so all of it is removed`
+    } else if (selection.removed.length > 0) {
+      report.textContent = `Removed: ${selection.removed.join(', ')}`
+    } else {
+      report.textContent = 'All metadata is kept'
     }
   }
 
+  private updateTargetSizeInfo(container: HTMLElement, result: TargetSizeResult): void {
+    const targetSizeInfo = container.querySelector('#targetSizeInfo') as HTMLElement
+    const quality = container.querySelector('#quality') as HTMLInputElement
+    const qualityDisplay = quality.parentElement?.querySelector('.control-value')
+
+    quality.value = result.quality.toString()
+    if (qualityDisplay) qualityDisplay.textContent = `${result.quality}%`
+
+    const details = [`Quality ${result.quality}%`, `${result.attempts} encode attempts`]
+    if (result.scale < 1) {
+      details.push(`resized to ${result.width} × ${result.height}`)
+    }
+
+    targetSizeInfo.classList.remove('error')
+    targetSizeInfo.textContent = details.join(' · ')
+  }
+
   private updateSizeInfo(container: HTMLElement, result: CompressionResult): void {
     const sizeInfo = container.querySelector('#sizeInfo') as HTMLElement
     const originalSize = container.querySelector('#originalSize') as HTMLElement
@@ -1171,79 +3597,363 @@ export class ImageProcessor {
   }
 
   private resetAll(container: HTMLElement): void {
-    // Reset sliders
-    const sliders = container.querySelectorAll('.control-slider') as NodeListOf<HTMLInputElement>
-    sliders.forEach(slider => {
-      let defaultValue = '100'
-      if (slider.id === 'blur') defaultValue = '0'
-      else if (slider.id === 'quality') defaultValue = '85'
-      else if (slider.id === 'cropLeft' || slider.id === 'cropTop') defaultValue = '0'
-      else if (slider.id === 'cropWidth' || slider.id === 'cropHeight') defaultValue = '100'
-      
-      slider.value = defaultValue
-      
-      const valueDisplay = slider.parentElement?.querySelector('.control-value')
-      if (valueDisplay) {
-        let suffix = '%'
-        if (slider.id === 'blur') suffix = 'px'
-        valueDisplay.textContent = `${defaultValue}${suffix}`
-      }
-    })
+    // Format and quality go back to the preferred defaults
+    this.applyExportDefaults(container, this.preferencesManager.get())
 
-    // Reset filter buttons
-    const filterButtons = container.querySelectorAll('.filter-btn')
-    filterButtons.forEach(btn => btn.classList.remove('active'))
-    const originalBtn = container.querySelector('.filter-btn[data-filter="none"]')
-    originalBtn?.classList.add('active')
-
-    // Reset format buttons
-    const formatButtons = container.querySelectorAll('.format-btn')
-    formatButtons.forEach(btn => btn.classList.remove('active'))
-    const jpegBtn = container.querySelector('.format-btn[data-format="jpeg"]')
-    jpegBtn?.classList.add('active')
-
-    // Reset crop
-    if (this.isCropEnabled) {
-      const toggleCropBtn = container.querySelector('#toggleCropBtn') as HTMLButtonElement
-      const cropStatus = container.querySelector('#cropStatus') as HTMLElement
-      const cropControls = container.querySelector('#cropControls') as HTMLElement
-      this.toggleCrop(toggleCropBtn, cropStatus, cropControls, container)
-    }
+    // Back to the default of exporting without metadata
+    container.querySelectorAll('.metadata-mode-btn').forEach(btn => {
+      btn.classList.toggle('active', btn.getAttribute('data-metadata') === 'strip')
+    })
 
-    // Reset preview image
-    const previewImage = container.querySelector('#previewImage') as HTMLImageElement
-    previewImage.style.filter = ''
+    // Crop, filters and adjustments live in the edit stack, so this step can be undone
+    this.editStack.clear()
+    this.activeRecipe = null
 
     // Update compression
-    setTimeout(() => this.updateCompression(container), 100)
+    this.scheduleCompression(container)
     
     this.toastManager.success('All settings reset!')
   }
 
-  private downloadImage(container: HTMLElement): void {
-    if (!this.compressionResult) {
-      this.toastManager.error('No processed image to download')
+  private async downloadImage(container: HTMLElement): Promise<void> {
+    // Re-render so the file reflects the latest settings, not a pending debounce
+    window.clearTimeout(this.compressionTimer)
+    const result = await this.updateCompression(container)
+
+    // Render failures are reported by updateCompression; a render superseded by a newer
+    // edit leaves no file for the current settings, so nothing older is saved instead
+    if (!result || result !== this.compressionResult) {
+      if (this.targetSizeMissed) {
+        this.toastManager.error('Target file size cannot be met')
+      } else if (!this.currentImage) {
+        this.toastManager.error('No processed image to download')
+      }
       return
     }
 
     try {
-      const activeFormat = container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg'
-      const formatInfo = this.compressionManager.getFormatInfo(activeFormat)
-      
-      const url = URL.createObjectURL(this.compressionResult.blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `solanam-processed-${Date.now()}.${formatInfo?.extension || 'jpg'}`
-      
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      URL.revokeObjectURL(url)
-      
+      this.downloadBlob(result.blob, this.getDownloadName(container))
       this.toastManager.success('Image downloaded!')
     } catch (error) {
       console.error('Download error:', error)
       this.toastManager.error('Failed to download image')
     }
   }
-}
\ No newline at end of file
+
+  private getDownloadName(container: HTMLElement): string {
+    const format = container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg'
+    return this.filenameTemplate.render((container.querySelector('#filenameTemplate') as HTMLInputElement).value, {
+      name: this.currentFile?.name || 'image',
+      width: this.outputSize.width,
+      height: this.outputSize.height,
+      format,
+      extension: this.compressionManager.getFormatInfo(format)?.extension || 'jpg',
+      quality: parseInt((container.querySelector('#quality') as HTMLInputElement).value),
+      recipe: this.activeRecipe || undefined
+    })
+  }
+
+  private updateFilenamePreview(container: HTMLElement): void {
+    const preview = container.querySelector('#filenamePreview') as HTMLElement
+    const template = (container.querySelector('#filenameTemplate') as HTMLInputElement).value
+    const unknown = this.filenameTemplate.findUnknownTokens(template)
+
+    preview.classList.toggle('warning', unknown.length > 0)
+    preview.textContent = unknown.length > 0
+      ? `Unknown token${unknown.length === 1 ? '' : 's'}: ${unknown.map(token => `{${token}}`).join(', ')}`
+      : this.getDownloadName(container)
+  }
+
+  private async downloadIconPack(container: HTMLElement): Promise<void> {
+    if (!this.currentImage) {
+      this.toastManager.error('No image to build icons from')
+      return
+    }
+
+    const iconPackBtn = container.querySelector('#iconPackBtn') as HTMLButtonElement
+    const snippet = container.querySelector('#iconPackSnippet') as HTMLElement
+    const name = (container.querySelector('#iconPackName') as HTMLInputElement).value.trim() || 'App'
+    const shortName = (container.querySelector('#iconPackShortName') as HTMLInputElement).value.trim() || name
+    const themeColor = (container.querySelector('#iconPackThemeColor') as HTMLInputElement).value
+
+    iconPackBtn.disabled = true
+    try {
+      // Icons use the crop and filters but size themselves, so the resize step is skipped
+      const state = this.editStack.getState()
+      await this.iconWorker.setSource(this.currentImage)
+      const result = await this.iconWorker.generateIcons({ ...state, resize: { ...state.resize, mode: 'none' } }, {
+        name,
+        shortName,
+        themeColor,
+        backgroundColor: themeColor
+      })
+      // Null only when superseded, which the disabled button rules out
+      if (!result) return
+
+      snippet.textContent = result.snippet
+      snippet.style.display = 'block'
+      this.downloadBlob(result.blob, 'icon-pack.zip')
+      this.toastManager.success(`Icon pack downloaded (${result.fileCount} files)`)
+    } catch (error) {
+      console.error('Icon pack error:', error)
+      this.toastManager.error(error instanceof Error ? error.message : 'Failed to create icon pack')
+    } finally {
+      iconPackBtn.disabled = false
+    }
+  }
+
+  private downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  private addBatchFiles(container: HTMLElement, files: File[]): void {
+    if (files.length === 0) return
+    if (this.batchProcessor.isRunning()) {
+      this.toastManager.error('Wait for the current batch to finish')
+      return
+    }
+
+    const added = this.batchProcessor.add(files)
+    const rejected = added.filter(item => item.status === 'error').length
+    if (rejected > 0) {
+      this.toastManager.error(`${rejected} file${rejected === 1 ? '' : 's'} cannot be processed`)
+    }
+
+    if (!this.activeSections.has('batch')) {
+      this.toggleSection(container.querySelector('[data-section="batch"]') as HTMLElement, 'batch')
+    }
+    this.renderBatch(container)
+  }
+
+  private renderBatch(container: HTMLElement): void {
+    const batchList = container.querySelector('#batchList') as HTMLElement
+    const batchCount = container.querySelector('#batchCount') as HTMLElement
+    const batchClearBtn = container.querySelector('#batchClearBtn') as HTMLButtonElement
+    const batchRunBtn = container.querySelector('#batchRunBtn') as HTMLButtonElement
+    const items = this.batchProcessor.getItems()
+    const running = this.batchProcessor.isRunning()
+
+    batchCount.textContent = items.length > 0 ? items.length.toString() : ''
+    batchClearBtn.disabled = running || items.length === 0
+    batchRunBtn.disabled = running || !items.some(item => this.fileHandler.validateImageFile(item.file).valid)
+
+    if (items.length === 0) {
+      batchList.innerHTML = '<li class="batch-empty">No files queued</li>'
+      return
+    }
+
+    batchList.innerHTML = items.map(item => `
+      <li class="batch-item ${item.status}" data-id="${item.id}">
+        <div class="batch-item-header">
+          <span class="batch-item-name" title="${this.escapeHtml(item.file.name)}">${this.escapeHtml(item.file.name)}</span>
+          <button class="batch-remove" data-id="${item.id}" title="Remove from batch"${running ? ' disabled' : ''}>
+            <svg class="icon icon-sm" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+        <div class="batch-progress">
+          <div class="batch-progress-bar" style="width: ${item.progress}%"></div>
+        </div>
+        <div class="batch-item-status">${this.escapeHtml(this.getBatchStatus(item))}</div>
+      </li>
+    `).join('')
+  }
+
+  private getBatchStatus(item: BatchItem): string {
+    switch (item.status) {
+      case 'pending':
+        return `Queued · ${this.compressionManager.formatFileSize(item.file.size)}`
+      case 'processing':
+        return `Processing… ${item.progress}%`
+      case 'error':
+        return item.error || 'Failed to process image'
+      case 'done': {
+        const result = item.result!
+        const change = result.compressionRatio > 0
+          ? `-${result.compressionRatio.toFixed(1)}%`
+          : `+${Math.abs(result.compressionRatio).toFixed(1)}%`
+        return `${item.outputName} · ${this.compressionManager.formatFileSize(result.originalSize)} → ` +
+          `${this.compressionManager.formatFileSize(result.compressedSize)} (${change})`
+      }
+    }
+  }
+
+  private getBatchSettings(container: HTMLElement): BatchSettings {
+    const isTargetMode = (container.querySelector('#targetSizeEnabled') as HTMLInputElement).checked
+    const targetKb = parseInt((container.querySelector('#targetSize') as HTMLInputElement).value)
+
+    return {
+      state: this.editStack.getState(),
+      format: container.querySelector('.format-btn.active')?.getAttribute('data-format') || 'jpeg',
+      quality: parseInt((container.querySelector('#quality') as HTMLInputElement).value),
+      targetSize: isTargetMode && targetKb > 0 ? targetKb * 1024 : null,
+      allowResize: (container.querySelector('#targetAllowResize') as HTMLInputElement).checked,
+      metadataMode: this.getMetadataMode(container),
+      filenameTemplate: (container.querySelector('#filenameTemplate') as HTMLInputElement).value,
+      recipe: this.activeRecipe
+    }
+  }
+
+  private async runBatch(container: HTMLElement): Promise<void> {
+    const batchSummary = container.querySelector('#batchSummary') as HTMLElement
+
+    try {
+      const settings = this.getBatchSettings(container)
+      const pending = this.batchProcessor.process(settings, () => this.renderBatch(container))
+      this.renderBatch(container)
+      const summary = await pending
+
+      if (!summary.blob) {
+        batchSummary.style.display = 'none'
+        this.toastManager.error('No files could be processed')
+        return
+      }
+
+      const saved = summary.originalSize - summary.compressedSize
+      batchSummary.style.display = 'block'
+      batchSummary.classList.toggle('error', summary.failed > 0)
+      batchSummary.textContent =
+        `${summary.processed} processed${summary.failed > 0 ? `, ${summary.failed} failed` : ''} · ` +
+        `${this.compressionManager.formatFileSize(summary.originalSize)} → ` +
+        `${this.compressionManager.formatFileSize(summary.compressedSize)}` +
+        (saved > 0 ? ` (saved ${this.compressionManager.formatFileSize(saved)})` : '')
+
+      this.downloadBlob(summary.blob, `solanam-batch-${Date.now()}.zip`)
+      this.toastManager.success(`Batch of ${summary.processed} image${summary.processed === 1 ? '' : 's'} downloaded!`)
+    } catch (error) {
+      console.error('Batch error:', error)
+      this.toastManager.error('Batch processing failed')
+    } finally {
+      this.renderBatch(container)
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const element = document.createElement('span')
+    element.textContent = text
+    return element.innerHTML.replace(/"/g, '&quot;')
+  }
+
+  private async loadPageImages(container: HTMLElement): Promise<void> {
+    const status = container.querySelector('#pageImagesStatus') as HTMLElement
+    status.classList.remove('error')
+    status.textContent = 'Reading images from the page…'
+
+    try {
+      this.pageImages = await this.pageImageSource.listImages()
+      // Drop selections for images that are no longer on the page
+      const sources = new Set(this.pageImages.map(image => image.src))
+      this.selectedPageImages.forEach(src => {
+        if (!sources.has(src)) this.selectedPageImages.delete(src)
+      })
+      this.renderPageImages(container)
+    } catch (error) {
+      this.pageImages = []
+      this.renderPageImages(container)
+      status.classList.add('error')
+      status.textContent = error instanceof Error ? error.message : 'Failed to read page images'
+    }
+  }
+
+  private getVisiblePageImages(container: HTMLElement): PageImage[] {
+    const minSize = parseInt((container.querySelector('#pageMinSize') as HTMLInputElement).value) || 0
+    return this.pageImages.filter(image => image.width >= minSize && image.height >= minSize)
+  }
+
+  private renderPageImages(container: HTMLElement): void {
+    const grid = container.querySelector('#pageImagesGrid') as HTMLElement
+    const status = container.querySelector('#pageImagesStatus') as HTMLElement
+    const pageToEditorBtn = container.querySelector('#pageToEditorBtn') as HTMLButtonElement
+    const pageToBatchBtn = container.querySelector('#pageToBatchBtn') as HTMLButtonElement
+    const visible = new Set(this.getVisiblePageImages(container))
+    const selected = this.getSelectedPageImages(container)
+
+    status.classList.remove('error')
+    status.textContent = this.pageImages.length === 0
+      ? 'No images found on this page'
+      : `${visible.size} of ${this.pageImages.length} images · ${selected.length} selected`
+
+    grid.innerHTML = this.pageImages.map((image, index) => {
+      if (!visible.has(image)) return ''
+
+      const alt = this.escapeHtml(image.alt)
+      const src = this.escapeHtml(image.src)
+      const isSelected = this.selectedPageImages.has(image.src)
+      return `
+        <button class="page-image${isSelected ? ' selected' : ''}" data-index="${index}" title="${src}">
+          <img src="${this.escapeHtml(image.thumbnail || image.src)}" alt="${alt}" loading="lazy">
+          <span class="page-image-size">${image.width} × ${image.height}</span>
+          <span class="page-image-alt">${alt || '<em>No alt text</em>'}</span>
+          <span class="page-image-src">${src}</span>
+        </button>
+      `
+    }).join('')
+
+    pageToEditorBtn.disabled = selected.length === 0
+    pageToBatchBtn.disabled = selected.length === 0
+    pageToBatchBtn.textContent = selected.length > 1 ? `Add ${selected.length} to Batch` : 'Add to Batch'
+  }
+
+  // Hidden (filtered out) images stay selected but are not imported
+  private getSelectedPageImages(container: HTMLElement): PageImage[] {
+    return this.getVisiblePageImages(container).filter(image => this.selectedPageImages.has(image.src))
+  }
+
+  private async importPageImages(container: HTMLElement, toBatch: boolean): Promise<void> {
+    const selected = this.getSelectedPageImages(container)
+    if (selected.length === 0) return
+
+    const pageToEditorBtn = container.querySelector('#pageToEditorBtn') as HTMLButtonElement
+    const pageToBatchBtn = container.querySelector('#pageToBatchBtn') as HTMLButtonElement
+    const status = container.querySelector('#pageImagesStatus') as HTMLElement
+    pageToEditorBtn.disabled = true
+    pageToBatchBtn.disabled = true
+
+    try {
+      if (!toBatch) {
+        status.textContent = 'Importing image…'
+        await this.loadContextImage(await this.pageImageSource.loadImage(selected[0]))
+        return
+      }
+
+      const files: File[] = []
+      let firstImage: PageImageData | null = null
+      let failed = 0
+      for (const image of selected) {
+        status.textContent = `Importing ${files.length + failed + 1} of ${selected.length}…`
+        try {
+          const imageData = await this.pageImageSource.loadImage(image)
+          firstImage = firstImage || imageData
+          files.push(await this.pageImageSource.toFile(imageData))
+        } catch {
+          failed++
+        }
+      }
+
+      if (failed > 0) {
+        this.toastManager.error(`${failed} image${failed === 1 ? '' : 's'} could not be read from the page`)
+      }
+      if (!firstImage) return
+
+      // The batch lives next to the editor, so the first image is opened for tuning
+      if (!this.currentImage) {
+        await this.loadContextImage(firstImage)
+      }
+      this.addBatchFiles(container, files)
+    } catch (error) {
+      console.error('Page import error:', error)
+      this.toastManager.error(error instanceof Error ? error.message : 'Failed to import image')
+    } finally {
+      this.renderPageImages(container)
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import { CompressionManager, CompressionResult, TargetSizeResult } from './CompressionManager'
+import { EditState } from './EditStack'
+import { FileHandler, LoadedImage } from './FileHandler'
+import { FilenameTemplate } from './FilenameTemplate'
+import { MetadataMode, MetadataWriter } from './MetadataWriter'
+import { RenderWorkerClient } from './RenderWorkerClient'
+import { ZipWriter } from './ZipWriter'
+
+export type BatchItemStatus = 'pending' | 'processing' | 'done' | 'error'
+
+export interface BatchItem {
+  id: number
+  file: File
+  status: BatchItemStatus
+  progress: number
+  outputName?: string
+  result?: CompressionResult
+  error?: string
+}
+
+export interface BatchSettings {
+  state: EditState
+  format: string
+  quality: number
+  // Byte budget per file; null encodes at the given quality
+  targetSize: number | null
+  allowResize: boolean
+  metadataMode: MetadataMode
+  filenameTemplate: string
+  recipe: string | null
+}
+
+export interface BatchSummary {
+  blob: Blob | null
+  processed: number
+  failed: number
+  originalSize: number
+  compressedSize: number
+}
+
+export class BatchProcessor {
+  private items: BatchItem[] = []
+  private nextId = 1
+  private running = false
+  private fileHandler: FileHandler
+  // A client of its own, so the batch and the editor's preview don't cancel each other's jobs
+  private renderWorker: RenderWorkerClient
+  private compressionManager: CompressionManager
+  private readonly metadataWriter = new MetadataWriter()
+  private readonly filenameTemplate = new FilenameTemplate()
+
+  constructor(fileHandler: FileHandler, renderWorker: RenderWorkerClient, compressionManager: CompressionManager) {
+    this.fileHandler = fileHandler
+    this.renderWorker = renderWorker
+    this.compressionManager = compressionManager
+  }
+
+  // Invalid files stay in the queue as errors so the user can see why they were skipped
+  add(files: File[]): BatchItem[] {
+    const added = files.map(file => {
+      const validation = this.fileHandler.validateImageFile(file)
+      const item: BatchItem = {
+        id: this.nextId++,
+        file,
+        status: validation.valid ? 'pending' : 'error',
+        progress: 0,
+        error: validation.error
+      }
+      return item
+    })
+
+    this.items.push(...added)
+    return added
+  }
+
+  remove(id: number): void {
+    if (this.running) return
+    this.items = this.items.filter(item => item.id !== id)
+  }
+
+  clear(): void {
+    if (this.running) return
+    this.items = []
+  }
+
+  getItems(): BatchItem[] {
+    return this.items
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  // Files are processed one at a time to keep memory bounded on large batches
+  async process(settings: BatchSettings, onUpdate: (item: BatchItem) => void): Promise<BatchSummary> {
+    if (this.running) {
+      throw new Error('A batch is already running')
+    }
+
+    this.running = true
+    const zip = new ZipWriter()
+    const summary: BatchSummary = { blob: null, processed: 0, failed: 0, originalSize: 0, compressedSize: 0 }
+
+    try {
+      // Every run re-applies the current settings, so finished files are processed again
+      for (const [index, item] of this.items.entries()) {
+        const validation = this.fileHandler.validateImageFile(item.file)
+        if (!validation.valid) {
+          summary.failed++
+          continue
+        }
+
+        item.status = 'processing'
+        item.progress = 0
+        item.error = undefined
+        item.result = undefined
+        onUpdate(item)
+
+        try {
+          await this.processItem(item, index + 1, settings, zip, onUpdate)
+          item.status = 'done'
+          item.progress = 100
+          summary.processed++
+          summary.originalSize += item.file.size
+          summary.compressedSize += item.result!.compressedSize
+        } catch (error) {
+          item.status = 'error'
+          item.error = error instanceof Error ? error.message : 'Failed to process image'
+          summary.failed++
+        }
+        onUpdate(item)
+      }
+
+      if (summary.processed > 0) {
+        summary.blob = zip.generate()
+      }
+      return summary
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async processItem(
+    item: BatchItem,
+    index: number,
+    settings: BatchSettings,
+    zip: ZipWriter,
+    onUpdate: (item: BatchItem) => void
+  ): Promise<void> {
+    const { image, loaded } = await this.loadImage(item.file)
+    this.setProgress(item, 20, onUpdate)
+    await this.renderWorker.setSource(image)
+
+    const job = await this.renderWorker.run({
+      state: settings.state,
+      compression: {
+        quality: settings.quality,
+        format: settings.format,
+        maintainAspectRatio: settings.state.resize.maintainAspectRatio,
+        metadata: this.metadataWriter.select(loaded.rawMetadata, loaded.metadata, settings.metadataMode).keep
+      },
+      originalSize: item.file.size,
+      target: settings.targetSize ? { targetSize: settings.targetSize, allowResize: settings.allowResize } : undefined,
+      histogram: false
+    }, percent => this.setProgress(item, Math.round(20 + percent * 0.7), onUpdate))
+    if (!job) {
+      throw new Error('Processing was interrupted')
+    }
+    item.result = job.result
+    this.setProgress(item, 90, onUpdate)
+
+    // Target-size searches pick their own quality and may scale the image down
+    const quality = settings.targetSize ? (job.result as TargetSizeResult).quality : settings.quality
+    const output = { width: job.width, height: job.height, quality }
+
+    const fileName = this.filenameTemplate.render(settings.filenameTemplate, {
+      name: item.file.name,
+      ...output,
+      format: settings.format,
+      extension: this.compressionManager.getFormatInfo(settings.format).extension,
+      recipe: settings.recipe || undefined,
+      index
+    })
+    item.outputName = this.getOutputName(fileName, zip)
+    await zip.addFile(item.outputName, item.result.blob)
+  }
+
+  private async loadImage(file: File): Promise<{ image: HTMLImageElement; loaded: LoadedImage }> {
+    const loaded = await this.fileHandler.loadImage(file)
+    return new Promise((resolve, reject) => {
+      const image = new Image()
+      image.onload = () => resolve({ image, loaded })
+      image.onerror = () => reject(new Error('Failed to decode image'))
+      image.src = loaded.dataUrl
+    })
+  }
+
+  // Adds a counter when the template gives two files the same name
+  private getOutputName(fileName: string, zip: ZipWriter): string {
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    const extension = fileName.slice(baseName.length + 1)
+    let name = fileName
+    for (let counter = 2; zip.hasFile(name); counter++) {
+      name = `${baseName}-${counter}.${extension}`
+    }
+    return name
+  }
+
+  private setProgress(item: BatchItem, progress: number, onUpdate: (item: BatchItem) => void): void {
+    item.progress = progress
+    onUpdate(item)
+  }
+}
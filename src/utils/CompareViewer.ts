@@ -0,0 +1,167 @@
+export type CompareMode = 'split' | 'side'
+
+// Shared view of the before/after panes. Pan is stored as a fraction of the pane so
+// the same values line up in the half-width side-by-side panes.
+interface CompareViewport {
+  zoom: number
+  panX: number
+  panY: number
+}
+
+export class CompareViewer {
+  readonly minZoom = 1
+  readonly maxZoom = 16
+  private viewport: CompareViewport = { zoom: 1, panX: 0, panY: 0 }
+  // Position of the split line as a fraction of the pane width
+  private split = 0.5
+  private mode: CompareMode = 'split'
+  private stage: HTMLElement | null = null
+  private afterUrl: string | null = null
+
+  attach(stage: HTMLElement): void {
+    this.stage = stage
+    this.addInteractivity(stage)
+    this.setMode(this.mode)
+  }
+
+  getMode(): CompareMode {
+    return this.mode
+  }
+
+  setMode(mode: CompareMode): void {
+    this.mode = mode
+    if (!this.stage) return
+
+    this.stage.classList.toggle('split', mode === 'split')
+    this.stage.classList.toggle('side', mode === 'side')
+    this.render()
+  }
+
+  getZoom(): number {
+    return this.viewport.zoom
+  }
+
+  // Before is drawn straight from a canvas; after is the encoded file, decoded by the browser
+  setImages(before: HTMLCanvasElement, after: Blob, width: number, height: number): void {
+    if (!this.stage) return
+
+    const beforeLayer = this.stage.querySelector('.compare-pane[data-side="before"] .compare-layer') as HTMLElement
+    before.classList.add('compare-image')
+    beforeLayer.replaceChildren(before)
+
+    const afterImage = this.stage.querySelector('.compare-pane[data-side="after"] .compare-image') as HTMLImageElement
+    if (this.afterUrl) URL.revokeObjectURL(this.afterUrl)
+    this.afterUrl = URL.createObjectURL(after)
+    afterImage.src = this.afterUrl
+
+    this.stage.style.setProperty('--compare-aspect', `${width} / ${height}`)
+  }
+
+  zoomBy(factor: number, originX = 0.5, originY = 0.5): void {
+    const { zoom, panX, panY } = this.viewport
+    const nextZoom = Math.min(this.maxZoom, Math.max(this.minZoom, zoom * factor))
+
+    // Keep the point under the origin fixed while zooming
+    const imageX = (originX - panX) / zoom
+    const imageY = (originY - panY) / zoom
+    this.viewport = this.clamp({ zoom: nextZoom, panX: originX - imageX * nextZoom, panY: originY - imageY * nextZoom })
+    this.render()
+  }
+
+  resetView(): void {
+    this.viewport = { zoom: 1, panX: 0, panY: 0 }
+    this.render()
+  }
+
+  clear(): void {
+    if (this.afterUrl) {
+      URL.revokeObjectURL(this.afterUrl)
+      this.afterUrl = null
+    }
+    this.resetView()
+  }
+
+  private render(): void {
+    if (!this.stage) return
+
+    const { zoom, panX, panY } = this.viewport
+    const transform = `translate(${panX * 100}%, ${panY * 100}%) scale(${zoom})`
+    this.stage.querySelectorAll<HTMLElement>('.compare-layer').forEach(layer => {
+      layer.style.transform = transform
+    })
+    this.stage.style.setProperty('--compare-split', `${this.split * 100}%`)
+    this.stage.classList.toggle('zoomed', zoom > 1)
+    this.stage.dispatchEvent(new CustomEvent('compareViewChange', { detail: { zoom } }))
+  }
+
+  // The image must always cover the pane, so panning stops at its edges
+  private clamp(viewport: CompareViewport): CompareViewport {
+    const minPan = 1 - viewport.zoom
+    return {
+      zoom: viewport.zoom,
+      panX: Math.min(0, Math.max(minPan, viewport.panX)),
+      panY: Math.min(0, Math.max(minPan, viewport.panY))
+    }
+  }
+
+  private addInteractivity(stage: HTMLElement): void {
+    let gesture: { type: 'pan' | 'split'; pointerId: number; startX: number; startY: number; start: CompareViewport } | null = null
+
+    stage.addEventListener('pointerdown', (e) => {
+      const pane = (e.target as HTMLElement).closest('.compare-pane') as HTMLElement | null
+      const onDivider = (e.target as HTMLElement).closest('.compare-divider') !== null
+      if (gesture || (!pane && !onDivider)) return
+
+      e.preventDefault()
+      stage.setPointerCapture(e.pointerId)
+      gesture = {
+        type: onDivider ? 'split' : 'pan',
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        start: { ...this.viewport }
+      }
+      stage.classList.add('dragging')
+    })
+
+    stage.addEventListener('pointermove', (e) => {
+      if (!gesture || e.pointerId !== gesture.pointerId) return
+
+      const paneRect = this.getPaneRect()
+      if (gesture.type === 'split') {
+        this.split = Math.min(1, Math.max(0, (e.clientX - paneRect.left) / paneRect.width))
+      } else {
+        this.viewport = this.clamp({
+          zoom: gesture.start.zoom,
+          panX: gesture.start.panX + (e.clientX - gesture.startX) / paneRect.width,
+          panY: gesture.start.panY + (e.clientY - gesture.startY) / paneRect.height
+        })
+      }
+      this.render()
+    })
+
+    const endGesture = (e: PointerEvent) => {
+      if (!gesture || e.pointerId !== gesture.pointerId) return
+      gesture = null
+      stage.classList.remove('dragging')
+    }
+    stage.addEventListener('pointerup', endGesture)
+    stage.addEventListener('pointercancel', endGesture)
+
+    stage.addEventListener('wheel', (e) => {
+      const pane = (e.target as HTMLElement).closest('.compare-pane') as HTMLElement | null
+      if (!pane) return
+
+      e.preventDefault()
+      const rect = pane.getBoundingClientRect()
+      this.zoomBy(e.deltaY < 0 ? 1.25 : 0.8, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height)
+    }, { passive: false })
+
+    stage.addEventListener('dblclick', () => this.resetView())
+  }
+
+  // Both panes share a size, so either one gives the scale for pointer movement
+  private getPaneRect(): DOMRect {
+    return (this.stage!.querySelector('.compare-pane') as HTMLElement).getBoundingClientRect()
+  }
+}
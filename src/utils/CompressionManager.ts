@@ -1,17 +1,42 @@
+import { ResizeManager } from './ResizeManager'
+import { ImageEncoder } from './ImageEncoder'
+import { MetadataWriter } from './MetadataWriter'
+import { RawMetadata } from './MetadataReader'
+import { CanvasSource, RenderCanvas, canvasToBlob, createCanvas, getContext2d, getSourceSize } from './canvas'
+
 export interface CompressionOptions {
   quality: number
   format: string
   maintainAspectRatio: boolean
+  // Blocks to embed in JPEG, PNG and WebP output; everything else is written without metadata
+  metadata?: RawMetadata
+}
+
+export interface TargetSizeOptions extends CompressionOptions {
+  targetSize: number
+  allowResize: boolean
 }
 
 export interface CompressionResult {
   blob: Blob
-  dataUrl: string
   originalSize: number
   compressedSize: number
   compressionRatio: number
 }
 
+export interface TargetSizeResult extends CompressionResult {
+  quality: number
+  attempts: number
+  width: number
+  height: number
+  scale: number
+}
+
+// Thrown when no quality (or size, if resizing is allowed) fits the byte budget
+export class TargetSizeError extends Error {
+  name = 'TargetSizeError'
+}
+
 export interface FormatInfo {
   extension: string
   mimeType: string
@@ -20,6 +45,12 @@ export interface FormatInfo {
 }
 
 export class CompressionManager {
+  private readonly resizeManager = new ResizeManager()
+  private readonly imageEncoder = new ImageEncoder()
+  private readonly metadataWriter = new MetadataWriter()
+  private readonly maxIconSize = 256
+  private readonly minQuality = 10
+  private readonly maxAttempts = 50
   private readonly formatMap: Record<string, FormatInfo> = {
     jpeg: { extension: 'jpg', mimeType: 'image/jpeg', supportsQuality: true, description: 'Best for photos' },
     png: { extension: 'png', mimeType: 'image/png', supportsQuality: false, description: 'Best for graphics' },
@@ -32,57 +63,100 @@ export class CompressionManager {
   }
 
   async compressImage(
-    image: HTMLImageElement,
+    image: CanvasSource,
     options: CompressionOptions,
     originalSize: number
   ): Promise<CompressionResult> {
-    return new Promise((resolve, reject) => {
-      try {
-        const canvas = document.createElement('canvas')
-        const ctx = canvas.getContext('2d')
-        
-        if (!ctx) {
-          reject(new Error('Canvas context not available'))
-          return
+    const canvas = this.prepareCanvas(image)
+    const formatInfo = this.getFormatInfo(options.format)
+    const quality = formatInfo.supportsQuality ? options.quality / 100 : 1
+
+    const blob = await this.encodeWithMetadata(canvas, formatInfo, quality, options.metadata)
+    return this.createResult(blob, originalSize)
+  }
+
+  // Searches quality (and optionally dimensions) for the best output that fits the byte budget
+  async compressToTarget(
+    image: CanvasSource,
+    options: TargetSizeOptions,
+    originalSize: number,
+    onAttempt?: (attempts: number) => void,
+    signal?: AbortSignal
+  ): Promise<TargetSizeResult> {
+    const source = this.prepareCanvas(image)
+    const formatInfo = this.getFormatInfo(options.format)
+    let canvas = source
+    let scale = 1
+    let attempts = 0
+    let smallestSize = Infinity
+
+    while (attempts < this.maxAttempts) {
+      let best: { blob: Blob; quality: number } | null = null
+
+      if (formatInfo.supportsQuality) {
+        // Binary search for the highest quality that still fits
+        let low = this.minQuality
+        let high = 100
+        while (low <= high && attempts < this.maxAttempts) {
+          const quality = Math.floor((low + high) / 2)
+          const blob = await this.encodeWithMetadata(canvas, formatInfo, quality / 100, options.metadata)
+          attempts++
+          onAttempt?.(attempts)
+          signal?.throwIfAborted()
+          smallestSize = Math.min(smallestSize, blob.size)
+
+          if (blob.size <= options.targetSize) {
+            best = { blob, quality }
+            low = quality + 1
+          } else {
+            high = quality - 1
+          }
+        }
+      } else {
+        const blob = await this.encodeWithMetadata(canvas, formatInfo, 1, options.metadata)
+        attempts++
+        onAttempt?.(attempts)
+        signal?.throwIfAborted()
+        smallestSize = Math.min(smallestSize, blob.size)
+        if (blob.size <= options.targetSize) {
+          best = { blob, quality: 100 }
         }
+      }
 
-        canvas.width = image.naturalWidth
-        canvas.height = image.naturalHeight
-        
-        ctx.drawImage(image, 0, 0)
-        
-        const formatInfo = this.getFormatInfo(options.format)
-        const quality = formatInfo.supportsQuality ? options.quality / 100 : 1
-        
-        canvas.toBlob(
-          (blob) => {
-            if (!blob) {
-              reject(new Error('Failed to compress image'))
-              return
-            }
-
-            const reader = new FileReader()
-            reader.onload = () => {
-              const compressionRatio = ((originalSize - blob.size) / originalSize) * 100
-              
-              resolve({
-                blob,
-                dataUrl: reader.result as string,
-                originalSize,
-                compressedSize: blob.size,
-                compressionRatio
-              })
-            }
-            reader.onerror = () => reject(new Error('Failed to read compressed image'))
-            reader.readAsDataURL(blob)
-          },
-          formatInfo.mimeType,
-          quality
-        )
-      } catch (error) {
-        reject(error)
+      if (best) {
+        const result = this.createResult(best.blob, originalSize)
+        return { ...result, quality: best.quality, attempts, width: canvas.width, height: canvas.height, scale }
       }
-    })
+
+      if (!options.allowResize || canvas.width <= 16 || canvas.height <= 16) {
+        break
+      }
+
+      // File size scales roughly with pixel count, so shrink both sides by the square root
+      const factor = Math.min(0.9, Math.max(0.5, Math.sqrt(options.targetSize / smallestSize) * 0.95))
+      scale *= factor
+      canvas = this.resizeManager.resample(
+        source,
+        Math.max(1, Math.round(source.width * scale)),
+        Math.max(1, Math.round(source.height * scale))
+      )
+    }
+
+    const hint = options.allowResize ? '' : ' Allow resizing or choose a lossy format.'
+    throw new TargetSizeError(
+      `Cannot fit under ${this.formatFileSize(options.targetSize)}: ` +
+      `smallest result was ${this.formatFileSize(smallestSize)} after ${attempts} attempts.${hint}`
+    )
+  }
+
+  // Encodes a canvas without building a full result, for callers that assemble files themselves
+  async encode(canvas: RenderCanvas, format: string, quality = 100): Promise<Blob> {
+    const formatInfo = this.getFormatInfo(format)
+    return this.encodeCanvas(canvas, formatInfo, formatInfo.supportsQuality ? quality / 100 : 1)
+  }
+
+  isSupportedFormat(format: string): boolean {
+    return Object.keys(this.formatMap).includes(format)
   }
 
   getFormatInfo(format: string): FormatInfo {
@@ -91,11 +165,102 @@ export class CompressionManager {
 
   formatFileSize(bytes: number): string {
     if (bytes === 0) return '0 Bytes'
-    
+
     const k = 1024
     const sizes = ['Bytes', 'KB', 'MB', 'GB']
     const i = Math.floor(Math.log(bytes) / Math.log(k))
-    
+
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
-}
\ No newline at end of file
+
+  // Rendered canvases are encoded as-is, images and bitmaps are drawn first.
+  // Resizing happens earlier, in the render pipeline.
+  private prepareCanvas(image: CanvasSource): RenderCanvas {
+    if ((typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement) ||
+      (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas)) {
+      return image
+    }
+
+    const { width, height } = getSourceSize(image)
+    const canvas = createCanvas(width, height)
+    getContext2d(canvas).drawImage(image, 0, 0)
+    return canvas
+  }
+
+  // Metadata is added before size checks so target-size searches count its bytes
+  private async encodeWithMetadata(
+    canvas: RenderCanvas,
+    formatInfo: FormatInfo,
+    quality: number,
+    metadata?: RawMetadata
+  ): Promise<Blob> {
+    const blob = await this.encodeCanvas(canvas, formatInfo, quality)
+    return metadata ? this.metadataWriter.inject(blob, metadata) : blob
+  }
+
+  private async encodeCanvas(canvas: RenderCanvas, formatInfo: FormatInfo, quality: number): Promise<Blob> {
+    let blob: Blob
+
+    // Canvas only encodes JPEG, PNG and WebP (and AVIF in some browsers); the rest are written by hand
+    switch (formatInfo.mimeType) {
+      case 'image/bmp':
+        blob = this.imageEncoder.encodeBmp(this.getImageData(canvas))
+        break
+      case 'image/tiff':
+        blob = this.imageEncoder.encodeTiff(this.getImageData(canvas))
+        break
+      case 'image/x-icon': {
+        const icon = this.fitIconCanvas(canvas)
+        const png = await this.encodeNative(icon, 'image/png', 1)
+        blob = await this.imageEncoder.encodeIco([{ width: icon.width, height: icon.height, png }])
+        break
+      }
+      case 'image/svg+xml': {
+        const png = await this.encodeNative(canvas, 'image/png', 1)
+        blob = await this.imageEncoder.encodeSvg(png, canvas.width, canvas.height)
+        break
+      }
+      default:
+        blob = await this.encodeNative(canvas, formatInfo.mimeType, quality)
+    }
+
+    if (!(await this.imageEncoder.matchesFormat(blob, formatInfo.mimeType))) {
+      throw new Error(`${formatInfo.extension.toUpperCase()} encoding is not supported in this browser`)
+    }
+
+    return blob
+  }
+
+  private encodeNative(canvas: RenderCanvas, mimeType: string, quality: number): Promise<Blob> {
+    return canvasToBlob(canvas, mimeType, quality)
+  }
+
+  private getImageData(canvas: RenderCanvas): ImageData {
+    return getContext2d(canvas).getImageData(0, 0, canvas.width, canvas.height)
+  }
+
+  // ICO entries are limited to 256 × 256
+  private fitIconCanvas(canvas: RenderCanvas): RenderCanvas {
+    if (canvas.width <= this.maxIconSize && canvas.height <= this.maxIconSize) {
+      return canvas
+    }
+
+    return this.resizeManager.resize(canvas, {
+      mode: 'fit',
+      width: this.maxIconSize,
+      height: this.maxIconSize,
+      percent: 100,
+      longEdge: 0,
+      maintainAspectRatio: true
+    })
+  }
+
+  private createResult(blob: Blob, originalSize: number): CompressionResult {
+    return {
+      blob,
+      originalSize,
+      compressedSize: blob.size,
+      compressionRatio: ((originalSize - blob.size) / originalSize) * 100
+    }
+  }
+}
@@ -4,23 +4,62 @@ export interface CropSettings {
   width: number
   height: number
   enabled: boolean
+  // Locked output width / height in pixels; null for a free crop
+  aspectRatio: number | null
+  // How the crop is edited and labelled; it is always stored as percentages
+  unit: CropUnit
 }
 
-export interface CropResult {
-  canvas: HTMLCanvasElement
-  dataUrl: string
-  croppedWidth: number
-  croppedHeight: number
+export type CropUnit = 'percent' | 'pixels'
+
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
 }
 
+export interface CropPreset {
+  id: string
+  label: string
+  width: number
+  height: number
+}
+
+export const CROP_RATIOS: { id: string; label: string; ratio: number }[] = [
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+  { id: '3:2', label: '3:2', ratio: 3 / 2 }
+]
+
+export const CROP_PRESETS: CropPreset[] = [
+  { id: 'instagram-post', label: 'Instagram post', width: 1080, height: 1350 },
+  { id: 'instagram-square', label: 'Instagram square', width: 1080, height: 1080 },
+  { id: 'instagram-story', label: 'Instagram story', width: 1080, height: 1920 },
+  { id: 'og-image', label: 'OG image', width: 1200, height: 630 },
+  { id: 'youtube-thumbnail', label: 'YouTube thumbnail', width: 1280, height: 720 },
+  { id: 'x-post', label: 'X post', width: 1600, height: 900 },
+  { id: 'facebook-cover', label: 'Facebook cover', width: 1640, height: 624 },
+  { id: 'linkedin-banner', label: 'LinkedIn banner', width: 1584, height: 396 }
+]
+
 export class CropManager {
   private cropSettings: CropSettings = {
     x: 0,
     y: 0,
     width: 100,
     height: 100,
-    enabled: false
+    enabled: false,
+    aspectRatio: null,
+    unit: 'percent'
   }
+  // Pixel size of the image the percentages refer to, for the overlay's dimension label
+  private imageSize: { width: number; height: number } | null = null
+  private overlay: HTMLElement | null = null
+  // Aborting removes every listener of the current overlay
+  private interaction: AbortController | null = null
 
   setCropSettings(settings: Partial<CropSettings>): void {
     this.cropSettings = { ...this.cropSettings, ...settings }
@@ -30,65 +69,32 @@ export class CropManager {
     return { ...this.cropSettings }
   }
 
-  applyCrop(sourceImage: HTMLImageElement): CropResult {
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')!
+  // Reuses the overlay while it exists so a gesture's pointer capture survives state updates
+  applyCropOverlay(previewImage: HTMLImageElement): void {
+    const container = previewImage.parentElement
+    if (!container) return
 
     if (!this.cropSettings.enabled) {
-      // Return original image if crop is disabled
-      canvas.width = sourceImage.naturalWidth
-      canvas.height = sourceImage.naturalHeight
-      ctx.drawImage(sourceImage, 0, 0)
-      
-      return {
-        canvas,
-        dataUrl: canvas.toDataURL(),
-        croppedWidth: sourceImage.naturalWidth,
-        croppedHeight: sourceImage.naturalHeight
-      }
+      this.removeCropOverlay()
+      return
     }
 
-    // Calculate crop dimensions based on percentages
-    const sourceWidth = sourceImage.naturalWidth
-    const sourceHeight = sourceImage.naturalHeight
-    
-    const cropX = (this.cropSettings.x / 100) * sourceWidth
-    const cropY = (this.cropSettings.y / 100) * sourceHeight
-    const cropWidth = (this.cropSettings.width / 100) * sourceWidth
-    const cropHeight = (this.cropSettings.height / 100) * sourceHeight
-
-    // Set canvas size to cropped dimensions
-    canvas.width = cropWidth
-    canvas.height = cropHeight
-
-    // Draw the cropped portion
-    ctx.drawImage(
-      sourceImage,
-      cropX, cropY, cropWidth, cropHeight,  // Source rectangle
-      0, 0, cropWidth, cropHeight           // Destination rectangle
-    )
-
-    return {
-      canvas,
-      dataUrl: canvas.toDataURL(),
-      croppedWidth: cropWidth,
-      croppedHeight: cropHeight
+    if (!this.overlay || this.overlay.parentElement !== container) {
+      this.removeCropOverlay()
+      this.createCropOverlay(container, previewImage)
     }
-  }
-
-  applyCropOverlay(previewImage: HTMLImageElement): void {
-    const container = previewImage.parentElement
-    if (!container) return
 
-    // Remove existing overlay
-    const existingOverlay = container.querySelector('.crop-overlay')
-    if (existingOverlay) {
-      existingOverlay.remove()
-    }
+    this.positionCropBox(previewImage)
+  }
 
-    if (!this.cropSettings.enabled) return
+  removeCropOverlay(): void {
+    this.interaction?.abort()
+    this.interaction = null
+    this.overlay?.remove()
+    this.overlay = null
+  }
 
-    // Create crop overlay
+  private createCropOverlay(container: HTMLElement, previewImage: HTMLImageElement): void {
     const overlay = document.createElement('div')
     overlay.className = 'crop-overlay'
     
@@ -99,7 +105,33 @@ export class CropManager {
     const guidelines = document.createElement('div')
     guidelines.className = 'crop-guidelines'
     cropBox.appendChild(guidelines)
+
+    const dimensions = document.createElement('div')
+    dimensions.className = 'crop-dimensions'
+    cropBox.appendChild(dimensions)
+    
+    // Add crop handles
+    const handles = ['nw', 'ne', 'sw', 'se', 'n', 's', 'w', 'e']
+    handles.forEach(handle => {
+      const handleElement = document.createElement('div')
+      handleElement.className = `crop-handle ${handle}`
+      handleElement.dataset.handle = handle
+      cropBox.appendChild(handleElement)
+    })
     
+    overlay.appendChild(cropBox)
+    container.appendChild(overlay)
+    this.overlay = overlay
+    
+    this.interaction = new AbortController()
+    this.addCropInteractivity(cropBox, previewImage, this.interaction.signal)
+  }
+
+  private positionCropBox(previewImage: HTMLImageElement): void {
+    const container = previewImage.parentElement
+    const cropBox = this.overlay?.querySelector('.crop-box') as HTMLElement | null
+    if (!container || !cropBox) return
+
     // Position crop box based on percentages
     const imageRect = previewImage.getBoundingClientRect()
     const containerRect = container.getBoundingClientRect()
@@ -116,130 +148,144 @@ export class CropManager {
     cropBox.style.top = `${cropTop}px`
     cropBox.style.width = `${cropWidth}px`
     cropBox.style.height = `${cropHeight}px`
-    
-    // Add crop handles
-    const handles = ['nw', 'ne', 'sw', 'se', 'n', 's', 'w', 'e']
-    handles.forEach(handle => {
-      const handleElement = document.createElement('div')
-      handleElement.className = `crop-handle ${handle}`
-      handleElement.dataset.handle = handle
-      cropBox.appendChild(handleElement)
-    })
-    
-    overlay.appendChild(cropBox)
-    container.appendChild(overlay)
-    
-    // Add drag functionality
-    this.addCropInteractivity(cropBox, previewImage)
+
+    const dimensions = cropBox.querySelector('.crop-dimensions') as HTMLElement
+    if (this.imageSize) {
+      const pixels = this.toPixels(this.cropSettings, this.imageSize.width, this.imageSize.height)
+      dimensions.textContent = `${pixels.width} × ${pixels.height}`
+    }
+    dimensions.style.display = this.imageSize ? '' : 'none'
   }
 
-  private addCropInteractivity(cropBox: HTMLElement, previewImage: HTMLImageElement): void {
-    let isDragging = false
-    let isResizing = false
+  // Pointer events cover mouse, pen and touch; two touches on the box pinch it around its centre
+  private addCropInteractivity(cropBox: HTMLElement, previewImage: HTMLImageElement, signal: AbortSignal): void {
+    const pointers = new Map<number, { x: number; y: number }>()
+    let mode: 'idle' | 'drag' | 'resize' | 'pinch' = 'idle'
     let currentHandle = ''
     let startX = 0
     let startY = 0
-    let startCropX = 0
-    let startCropY = 0
-    let startCropWidth = 0
-    let startCropHeight = 0
-
-    // Handle dragging the crop box
-    cropBox.addEventListener('mousedown', (e) => {
-      if ((e.target as HTMLElement).classList.contains('crop-handle')) {
-        isResizing = true
-        currentHandle = (e.target as HTMLElement).dataset.handle || ''
-      } else {
-        isDragging = true
+    let startDistance = 0
+    let start = { ...this.cropSettings }
+
+    const beginGesture = () => {
+      start = { ...this.cropSettings }
+      if (pointers.size === 2) {
+        const [a, b] = [...pointers.values()]
+        startDistance = Math.hypot(b.x - a.x, b.y - a.y) || 1
       }
-      
-      startX = e.clientX
-      startY = e.clientY
-      startCropX = this.cropSettings.x
-      startCropY = this.cropSettings.y
-      startCropWidth = this.cropSettings.width
-      startCropHeight = this.cropSettings.height
+    }
+
+    const endGesture = () => {
+      if (mode !== 'idle') {
+        // Signal the end of the gesture so it can be recorded as one edit
+        document.dispatchEvent(new CustomEvent('cropCommit', { detail: this.cropSettings }))
+      }
+      mode = 'idle'
+      currentHandle = ''
+    }
+
+    cropBox.addEventListener('pointerdown', (e) => {
+      if (e.pointerType === 'mouse' && e.button !== 0) return
+
+      cropBox.setPointerCapture(e.pointerId)
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+
+      if (pointers.size === 1) {
+        const target = e.target as HTMLElement
+        mode = target.classList.contains('crop-handle') ? 'resize' : 'drag'
+        currentHandle = target.dataset.handle || ''
+        startX = e.clientX
+        startY = e.clientY
+      } else if (pointers.size === 2) {
+        // A second finger turns a drag or resize into a pinch from the current box
+        mode = 'pinch'
+      }
+      beginGesture()
       
       e.preventDefault()
-    })
+    }, { signal })
 
-    document.addEventListener('mousemove', (e) => {
-      if (!isDragging && !isResizing) return
+    cropBox.addEventListener('pointermove', (e) => {
+      if (!pointers.has(e.pointerId)) return
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+      if (mode === 'idle') return
 
-      const deltaX = e.clientX - startX
-      const deltaY = e.clientY - startY
       const imageWidth = previewImage.offsetWidth
       const imageHeight = previewImage.offsetHeight
-      
-      const deltaXPercent = (deltaX / imageWidth) * 100
-      const deltaYPercent = (deltaY / imageHeight) * 100
-
-      if (isDragging) {
-        // Move the crop box
-        const newX = Math.max(0, Math.min(100 - this.cropSettings.width, startCropX + deltaXPercent))
-        const newY = Math.max(0, Math.min(100 - this.cropSettings.height, startCropY + deltaYPercent))
-        
-        this.setCropSettings({ x: newX, y: newY })
-      } else if (isResizing) {
-        // Resize the crop box based on handle
-        let newSettings = { ...this.cropSettings }
-        
-        switch (currentHandle) {
-          case 'se':
-            newSettings.width = Math.max(10, Math.min(100 - startCropX, startCropWidth + deltaXPercent))
-            newSettings.height = Math.max(10, Math.min(100 - startCropY, startCropHeight + deltaYPercent))
-            break
-          case 'nw':
-            const newWidth = Math.max(10, startCropWidth - deltaXPercent)
-            const newHeight = Math.max(10, startCropHeight - deltaYPercent)
-            newSettings.x = Math.max(0, startCropX + (startCropWidth - newWidth))
-            newSettings.y = Math.max(0, startCropY + (startCropHeight - newHeight))
-            newSettings.width = newWidth
-            newSettings.height = newHeight
-            break
-          case 'ne':
-            newSettings.width = Math.max(10, Math.min(100 - startCropX, startCropWidth + deltaXPercent))
-            const newHeightNE = Math.max(10, startCropHeight - deltaYPercent)
-            newSettings.y = Math.max(0, startCropY + (startCropHeight - newHeightNE))
-            newSettings.height = newHeightNE
-            break
-          case 'sw':
-            const newWidthSW = Math.max(10, startCropWidth - deltaXPercent)
-            newSettings.x = Math.max(0, startCropX + (startCropWidth - newWidthSW))
-            newSettings.width = newWidthSW
-            newSettings.height = Math.max(10, Math.min(100 - startCropY, startCropHeight + deltaYPercent))
-            break
-          case 'n':
-            const newHeightN = Math.max(10, startCropHeight - deltaYPercent)
-            newSettings.y = Math.max(0, startCropY + (startCropHeight - newHeightN))
-            newSettings.height = newHeightN
-            break
-          case 's':
-            newSettings.height = Math.max(10, Math.min(100 - startCropY, startCropHeight + deltaYPercent))
-            break
-          case 'w':
-            const newWidthW = Math.max(10, startCropWidth - deltaXPercent)
-            newSettings.x = Math.max(0, startCropX + (startCropWidth - newWidthW))
-            newSettings.width = newWidthW
-            break
-          case 'e':
-            newSettings.width = Math.max(10, Math.min(100 - startCropX, startCropWidth + deltaXPercent))
-            break
-        }
-        
-        this.setCropSettings(newSettings)
+
+      if (mode === 'pinch') {
+        const [a, b] = [...pointers.values()]
+        this.setCropSettings(this.pinchCrop(start, Math.hypot(b.x - a.x, b.y - a.y) / startDistance))
+      } else if (mode === 'drag') {
+        const deltaXPercent = ((e.clientX - startX) / imageWidth) * 100
+        const deltaYPercent = ((e.clientY - startY) / imageHeight) * 100
+        this.setCropSettings({
+          x: Math.max(0, Math.min(100 - start.width, start.x + deltaXPercent)),
+          y: Math.max(0, Math.min(100 - start.height, start.y + deltaYPercent))
+        })
+      } else {
+        const deltaXPercent = ((e.clientX - startX) / imageWidth) * 100
+        const deltaYPercent = ((e.clientY - startY) / imageHeight) * 100
+        this.setCropSettings(this.resizeCrop(currentHandle, start, deltaXPercent, deltaYPercent, imageWidth / imageHeight))
       }
       
       // Trigger update event
-      const updateEvent = new CustomEvent('cropUpdate', { detail: this.cropSettings })
-      document.dispatchEvent(updateEvent)
-    })
+      document.dispatchEvent(new CustomEvent('cropUpdate', { detail: this.cropSettings }))
+    }, { signal })
 
-    document.addEventListener('mouseup', () => {
-      isDragging = false
-      isResizing = false
-      currentHandle = ''
-    })
+    const releasePointer = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return
+      // Lifting one finger of a pinch ends the gesture; the other one is ignored until it lifts too
+      endGesture()
+    }
+    cropBox.addEventListener('pointerup', releasePointer, { signal })
+    cropBox.addEventListener('pointercancel', releasePointer, { signal })
+    cropBox.addEventListener('lostpointercapture', releasePointer, { signal })
+  }
+
+  private resizeCrop(
+    handle: string,
+    start: CropSettings,
+    deltaXPercent: number,
+    deltaYPercent: number,
+    imageAspect: number
+  ): Partial<CropSettings> {
+    if (start.aspectRatio) {
+      // Height in percent per percent of width, so the pixel ratio holds
+      return this.resizeLocked(handle, start, deltaXPercent, deltaYPercent, imageAspect / start.aspectRatio)
+    }
+
+    const settings: Partial<CropSettings> = {}
+    if (handle.includes('e')) {
+      settings.width = Math.max(10, Math.min(100 - start.x, start.width + deltaXPercent))
+    }
+    if (handle.includes('w')) {
+      const width = Math.max(10, Math.min(start.x + start.width, start.width - deltaXPercent))
+      settings.x = start.x + start.width - width
+      settings.width = width
+    }
+    if (handle.includes('s')) {
+      settings.height = Math.max(10, Math.min(100 - start.y, start.height + deltaYPercent))
+    }
+    if (handle.includes('n')) {
+      const height = Math.max(10, Math.min(start.y + start.height, start.height - deltaYPercent))
+      settings.y = start.y + start.height - height
+      settings.height = height
+    }
+    return settings
+  }
+
+  // Uniform scaling keeps any locked ratio; the box stays centred and inside the image
+  private pinchCrop(start: CropSettings, scale: number): Partial<CropSettings> {
+    const centerX = start.x + start.width / 2
+    const centerY = start.y + start.height / 2
+    const maxScale = Math.min(2 * Math.min(centerX, 100 - centerX) / start.width, 2 * Math.min(centerY, 100 - centerY) / start.height)
+    const minScale = Math.min(1, Math.max(10 / start.width, 10 / start.height))
+    const clamped = Math.max(minScale, Math.min(maxScale, scale))
+    const width = start.width * clamped
+    const height = start.height * clamped
+
+    return { x: centerX - width / 2, y: centerY - height / 2, width, height }
   }
 
   resetCrop(): void {
@@ -248,7 +294,110 @@ export class CropManager {
       y: 0,
       width: 100,
       height: 100,
-      enabled: false
+      enabled: false,
+      aspectRatio: null,
+      unit: 'percent'
+    }
+  }
+
+  setImageSize(width: number, height: number): void {
+    this.imageSize = { width, height }
+  }
+
+  // Rounds the same way RenderPipeline does, so the numbers match the exported region
+  toPixels(crop: CropSettings, imageWidth: number, imageHeight: number): PixelRect {
+    const x = Math.round((crop.x / 100) * imageWidth)
+    const y = Math.round((crop.y / 100) * imageHeight)
+    return {
+      x,
+      y,
+      width: Math.max(1, Math.min(imageWidth - x, Math.round((crop.width / 100) * imageWidth))),
+      height: Math.max(1, Math.min(imageHeight - y, Math.round((crop.height / 100) * imageHeight)))
+    }
+  }
+
+  fromPixels(rect: PixelRect, imageWidth: number, imageHeight: number): PixelRect {
+    const x = Math.max(0, Math.min(imageWidth - 1, Math.round(rect.x)))
+    const y = Math.max(0, Math.min(imageHeight - 1, Math.round(rect.y)))
+    const width = Math.max(1, Math.min(imageWidth - x, Math.round(rect.width)))
+    const height = Math.max(1, Math.min(imageHeight - y, Math.round(rect.height)))
+    return {
+      x: (x / imageWidth) * 100,
+      y: (y / imageHeight) * 100,
+      width: (width / imageWidth) * 100,
+      height: (height / imageHeight) * 100
+    }
+  }
+
+  // Largest box with the given ratio around the current crop's centre, at most its current width.
+  // imageAspect is the width / height of the image the percentages refer to.
+  fitToRatio(crop: CropSettings, ratio: number, imageAspect: number): CropSettings {
+    // Height in percent per percent of width for this ratio
+    const k = imageAspect / ratio
+    let width = crop.width
+    let height = width * k
+    if (height > 100) {
+      height = 100
+      width = height / k
+    }
+    if (width > 100) {
+      width = 100
+      height = width * k
+    }
+
+    const centerX = crop.x + crop.width / 2
+    const centerY = crop.y + crop.height / 2
+    return {
+      ...crop,
+      x: Math.max(0, Math.min(100 - width, centerX - width / 2)),
+      y: Math.max(0, Math.min(100 - height, centerY - height / 2)),
+      width,
+      height,
+      aspectRatio: ratio
+    }
+  }
+
+  // Edge handles scale around the box's centre line; corners keep the opposite corner fixed
+  private resizeLocked(
+    handle: string,
+    start: CropSettings,
+    deltaXPercent: number,
+    deltaYPercent: number,
+    k: number
+  ): Partial<CropSettings> {
+    const movesLeft = handle.includes('w')
+    const movesRight = handle.includes('e')
+    const movesTop = handle.includes('n')
+    const movesBottom = handle.includes('s')
+    const centerX = start.x + start.width / 2
+    const centerY = start.y + start.height / 2
+
+    const proposedWidth = start.width + (movesRight ? deltaXPercent : movesLeft ? -deltaXPercent : 0)
+    const proposedHeight = start.height + (movesBottom ? deltaYPercent : movesTop ? -deltaYPercent : 0)
+
+    let width: number
+    if (movesLeft || movesRight) {
+      const fromHeight = proposedHeight / k
+      // On corners follow whichever axis the pointer moved further along
+      width = (movesTop || movesBottom) && Math.abs(fromHeight - start.width) > Math.abs(proposedWidth - start.width)
+        ? fromHeight
+        : proposedWidth
+    } else {
+      width = proposedHeight / k
+    }
+
+    const roomX = movesRight ? 100 - start.x : movesLeft ? start.x + start.width : 2 * Math.min(centerX, 100 - centerX)
+    const roomY = movesBottom ? 100 - start.y : movesTop ? start.y + start.height : 2 * Math.min(centerY, 100 - centerY)
+    const maxWidth = Math.min(roomX, roomY / k)
+    const minWidth = Math.min(maxWidth, Math.max(10, 10 / k))
+    width = Math.max(minWidth, Math.min(maxWidth, width))
+    const height = width * k
+
+    return {
+      x: movesLeft ? start.x + start.width - width : movesRight ? start.x : centerX - width / 2,
+      y: movesTop ? start.y + start.height - height : movesBottom ? start.y : centerY - height / 2,
+      width,
+      height
     }
   }
 }
\ No newline at end of file
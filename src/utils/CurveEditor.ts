@@ -0,0 +1,172 @@
+import { CurvePoint, ToneManager } from './ToneManager'
+
+// Interactive curve on a canvas. Edits are reported with 'curveUpdate' while dragging and
+// 'curveCommit' when the pointer is released, both carrying the sorted points.
+export class CurveEditor {
+  private readonly hitRadius = 10
+  private readonly canvas: HTMLCanvasElement
+  private readonly toneManager: ToneManager
+  private points: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }]
+  private color = 'currentColor'
+  private dragIndex: number | null = null
+
+  constructor(canvas: HTMLCanvasElement, toneManager: ToneManager) {
+    this.canvas = canvas
+    this.toneManager = toneManager
+    this.addInteractivity()
+  }
+
+  // Ignored mid-drag, so state echoes don't fight the pointer
+  setCurve(points: CurvePoint[], color: string): void {
+    if (this.dragIndex !== null) return
+
+    this.points = points.map(point => ({ ...point }))
+    this.color = color
+    this.draw()
+  }
+
+  draw(): void {
+    const ctx = this.canvas.getContext('2d')!
+    const { width, height } = this.canvas
+    const lineColor = getComputedStyle(this.canvas).color
+    ctx.clearRect(0, 0, width, height)
+
+    // Quarter grid and the identity diagonal
+    ctx.strokeStyle = lineColor
+    ctx.globalAlpha = 0.2
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    for (let i = 1; i < 4; i++) {
+      ctx.moveTo((width * i) / 4, 0)
+      ctx.lineTo((width * i) / 4, height)
+      ctx.moveTo(0, (height * i) / 4)
+      ctx.lineTo(width, (height * i) / 4)
+    }
+    ctx.moveTo(0, height)
+    ctx.lineTo(width, 0)
+    ctx.stroke()
+    ctx.globalAlpha = 1
+
+    const table = this.toneManager.getCurveTable(this.points)
+    const color = this.color === 'currentColor' ? lineColor : this.color
+    ctx.strokeStyle = color
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    table.forEach((value, level) => {
+      const { x, y } = this.toCanvas({ x: level, y: value })
+      if (level === 0) ctx.moveTo(x, y)
+      else ctx.lineTo(x, y)
+    })
+    ctx.stroke()
+
+    ctx.fillStyle = color
+    this.points.forEach(point => {
+      const { x, y } = this.toCanvas(point)
+      ctx.beginPath()
+      ctx.arc(x, y, 4, 0, Math.PI * 2)
+      ctx.fill()
+    })
+  }
+
+  private addInteractivity(): void {
+    this.canvas.addEventListener('pointerdown', (e) => {
+      const position = this.fromEvent(e)
+      let index = this.findPoint(position)
+      const isNew = index === null
+
+      if (index === null) {
+        if (this.points.length >= this.toneManager.maxCurvePoints) return
+        // A new point starts on the curve so adding it changes nothing until it is dragged
+        const table = this.toneManager.getCurveTable(this.points)
+        const x = Math.round(position.x)
+        if (this.points.some(point => point.x === x)) return
+        this.points = [...this.points, { x, y: Math.round(table[x]) }].sort((a, b) => a.x - b.x)
+        index = this.points.findIndex(point => point.x === x)
+      }
+
+      e.preventDefault()
+      this.canvas.setPointerCapture(e.pointerId)
+      this.dragIndex = index
+      if (isNew) this.emit('curveUpdate')
+      this.moveDragged(position)
+    })
+
+    this.canvas.addEventListener('pointermove', (e) => {
+      if (this.dragIndex === null) return
+      this.moveDragged(this.fromEvent(e))
+    })
+
+    const endDrag = () => {
+      if (this.dragIndex === null) return
+      this.dragIndex = null
+      this.emit('curveCommit')
+    }
+    this.canvas.addEventListener('pointerup', endDrag)
+    this.canvas.addEventListener('pointercancel', endDrag)
+
+    // The end points anchor the range and can be moved but not removed
+    this.canvas.addEventListener('dblclick', (e) => {
+      const index = this.findPoint(this.fromEvent(e))
+      if (index === null || index === 0 || index === this.points.length - 1) return
+
+      this.points = this.points.filter((_, i) => i !== index)
+      this.draw()
+      this.emit('curveUpdate')
+      this.emit('curveCommit')
+    })
+  }
+
+  // Points keep their order: each stays between its neighbours
+  private moveDragged(position: CurvePoint): void {
+    const index = this.dragIndex!
+    const minX = index === 0 ? 0 : this.points[index - 1].x + 1
+    const maxX = index === this.points.length - 1 ? 255 : this.points[index + 1].x - 1
+
+    const moved = {
+      x: Math.round(Math.min(maxX, Math.max(minX, position.x))),
+      y: Math.round(Math.min(255, Math.max(0, position.y)))
+    }
+    // Grabbing a point without moving it is not an edit
+    if (moved.x === this.points[index].x && moved.y === this.points[index].y) return
+
+    this.points[index] = moved
+    this.draw()
+    this.emit('curveUpdate')
+  }
+
+  private findPoint(position: CurvePoint): number | null {
+    const scale = 255 / this.canvas.getBoundingClientRect().width
+    const radius = this.hitRadius * scale
+    let closest: number | null = null
+    let closestDistance = Infinity
+
+    this.points.forEach((point, index) => {
+      const distance = Math.hypot(point.x - position.x, point.y - position.y)
+      if (distance <= radius && distance < closestDistance) {
+        closest = index
+        closestDistance = distance
+      }
+    })
+    return closest
+  }
+
+  // Converts to curve levels, with 0 at the bottom like a histogram
+  private fromEvent(e: MouseEvent): CurvePoint {
+    const rect = this.canvas.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 255,
+      y: (1 - (e.clientY - rect.top) / rect.height) * 255
+    }
+  }
+
+  private toCanvas(point: CurvePoint): { x: number; y: number } {
+    return {
+      x: (point.x / 255) * this.canvas.width,
+      y: (1 - point.y / 255) * this.canvas.height
+    }
+  }
+
+  private emit(type: 'curveUpdate' | 'curveCommit'): void {
+    this.canvas.dispatchEvent(new CustomEvent(type, { detail: this.points.map(point => ({ ...point })) }))
+  }
+}
@@ -0,0 +1,75 @@
+import { ExtensionStorage } from './ExtensionStorage'
+import { FilterOptions } from './FilterManager'
+
+// A named look: every adjustment plus the base preset or LUT it was built on
+export interface CustomFilter {
+  id: string
+  name: string
+  filters: FilterOptions
+  updatedAt: number
+}
+
+// User-built filters, kept in chrome.storage.local as one ordered list so the
+// order the user arranges them in is the order they come back in
+export class CustomFilterManager {
+  private readonly storageKey = 'customFilters'
+  private readonly storage = new ExtensionStorage('local')
+
+  async list(): Promise<CustomFilter[]> {
+    const stored = await this.storage.get<CustomFilter[]>(this.storageKey)
+    return Array.isArray(stored) ? stored : []
+  }
+
+  // Without an id the filter is added at the end; with one it is updated in place
+  async save(filter: { id?: string; name: string; filters: FilterOptions }): Promise<CustomFilter> {
+    const name = filter.name.trim()
+    if (!name) {
+      throw new Error('Filter name is required')
+    }
+
+    const filters = await this.list()
+    if (filters.some(item => item.id !== filter.id && item.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A custom filter named "${name}" already exists`)
+    }
+
+    const saved: CustomFilter = {
+      id: filter.id || `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      filters: filter.filters,
+      updatedAt: Date.now()
+    }
+    const index = filters.findIndex(item => item.id === saved.id)
+    if (index >= 0) {
+      filters[index] = saved
+    } else {
+      filters.push(saved)
+    }
+
+    await this.write(filters)
+    return saved
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.write((await this.list()).filter(item => item.id !== id))
+  }
+
+  // Moves a filter one place towards the start (-1) or the end (1) of the list
+  async move(id: string, offset: -1 | 1): Promise<void> {
+    const filters = await this.list()
+    const index = filters.findIndex(item => item.id === id)
+    const target = index + offset
+    if (index < 0 || target < 0 || target >= filters.length) return
+
+    const [moved] = filters.splice(index, 1)
+    filters.splice(target, 0, moved)
+    await this.write(filters)
+  }
+
+  private async write(filters: CustomFilter[]): Promise<void> {
+    try {
+      await this.storage.set({ [this.storageKey]: filters })
+    } catch {
+      throw new Error('Custom filters could not be saved (storage quota reached)')
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { CropSettings } from './CropManager'
+import { FilterOptions } from './FilterManager'
+import { ResizeOptions } from './ResizeManager'
+import { ToneManager } from './ToneManager'
+import { TransformSettings } from './TransformManager'
+
+export interface EditState {
+  transform: TransformSettings
+  crop: CropSettings
+  filters: FilterOptions
+  resize: ResizeOptions
+}
+
+export type EditChanges = {
+  [K in keyof EditState]?: Partial<EditState[K]>
+}
+
+export type EditOperationType = 'transform' | 'crop' | 'filter' | 'adjustment' | 'resize' | 'recipe'
+
+export interface EditOperation {
+  id: number
+  type: EditOperationType
+  label: string
+  changes: EditChanges
+  enabled: boolean
+}
+
+export class EditStack {
+  private readonly maxHistory = 100
+  private readonly toneManager = new ToneManager()
+  private operations: EditOperation[] = []
+  private undoHistory: EditOperation[][] = []
+  private redoHistory: EditOperation[][] = []
+  private nextId = 1
+  // Key of the last operation while it can still absorb updates (e.g. during a slider drag)
+  private openMergeKey: string | null = null
+
+  push(type: EditOperationType, label: string, changes: EditChanges, mergeKey?: string): void {
+    const last = this.operations[this.operations.length - 1]
+
+    if (mergeKey && last && this.openMergeKey === mergeKey) {
+      this.operations = [
+        ...this.operations.slice(0, -1),
+        { ...last, label, changes: this.mergeChanges(last.changes, changes) }
+      ]
+    } else {
+      this.record()
+      this.operations = [...this.operations, { id: this.nextId++, type, label, changes, enabled: true }]
+    }
+
+    this.openMergeKey = mergeKey || null
+    this.notify()
+  }
+
+  commit(): void {
+    this.openMergeKey = null
+  }
+
+  toggle(id: number): void {
+    if (!this.operations.some(op => op.id === id)) return
+
+    this.record()
+    this.operations = this.operations.map(op => (op.id === id ? { ...op, enabled: !op.enabled } : op))
+    this.notify()
+  }
+
+  remove(id: number): void {
+    if (!this.operations.some(op => op.id === id)) return
+
+    this.record()
+    this.operations = this.operations.filter(op => op.id !== id)
+    this.notify()
+  }
+
+  // Drops every operation but keeps the change undoable
+  clear(): void {
+    if (this.operations.length === 0) return
+
+    this.record()
+    this.operations = []
+    this.notify()
+  }
+
+  // Starts over with no operations and no history, e.g. for a new image
+  reset(): void {
+    this.operations = []
+    this.undoHistory = []
+    this.redoHistory = []
+    this.openMergeKey = null
+    this.notify()
+  }
+
+  undo(): boolean {
+    const previous = this.undoHistory.pop()
+    if (!previous) return false
+
+    this.redoHistory.push(this.operations)
+    this.operations = previous
+    this.openMergeKey = null
+    this.notify()
+    return true
+  }
+
+  redo(): boolean {
+    const next = this.redoHistory.pop()
+    if (!next) return false
+
+    this.undoHistory.push(this.operations)
+    this.operations = next
+    this.openMergeKey = null
+    this.notify()
+    return true
+  }
+
+  canUndo(): boolean {
+    return this.undoHistory.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoHistory.length > 0
+  }
+
+  getOperations(): EditOperation[] {
+    return [...this.operations]
+  }
+
+  getState(): EditState {
+    return this.operations
+      .filter(op => op.enabled)
+      .reduce<EditState>((state, op) => this.applyChanges(state, op.changes), this.getDefaultState())
+  }
+
+  getDefaultState(): EditState {
+    return {
+      transform: { rotation: 0, flipHorizontal: false, flipVertical: false, straighten: 0 },
+      crop: { x: 0, y: 0, width: 100, height: 100, enabled: false, aspectRatio: null, unit: 'percent' },
+      filters: {
+        brightness: 100,
+        contrast: 100,
+        saturation: 100,
+        blur: 0,
+        filter: 'none',
+        lutIntensity: 100,
+        levels: this.toneManager.getDefaultLevels(),
+        curves: this.toneManager.getDefaultCurves(),
+        exposure: 0,
+        temperature: 0,
+        tint: 0,
+        vibrance: 0,
+        hue: 0,
+        highlights: 0,
+        shadows: 0,
+        vignette: 0,
+        sharpenAmount: 0,
+        sharpenRadius: 1
+      },
+      resize: { mode: 'none', width: 0, height: 0, percent: 100, longEdge: 2048, maintainAspectRatio: true }
+    }
+  }
+
+  private applyChanges(state: EditState, changes: EditChanges): EditState {
+    return {
+      transform: { ...state.transform, ...changes.transform },
+      crop: { ...state.crop, ...changes.crop },
+      filters: { ...state.filters, ...changes.filters },
+      resize: { ...state.resize, ...changes.resize }
+    }
+  }
+
+  private mergeChanges(base: EditChanges, changes: EditChanges): EditChanges {
+    const merged: EditChanges = { ...base }
+    if (changes.transform) merged.transform = { ...base.transform, ...changes.transform }
+    if (changes.crop) merged.crop = { ...base.crop, ...changes.crop }
+    if (changes.filters) merged.filters = { ...base.filters, ...changes.filters }
+    if (changes.resize) merged.resize = { ...base.resize, ...changes.resize }
+    return merged
+  }
+
+  private record(): void {
+    this.undoHistory.push(this.operations)
+    if (this.undoHistory.length > this.maxHistory) {
+      this.undoHistory.shift()
+    }
+    this.redoHistory = []
+  }
+
+  private notify(): void {
+    const changeEvent = new CustomEvent('editStackChange', { detail: this.getState() })
+    document.dispatchEvent(changeEvent)
+  }
+}
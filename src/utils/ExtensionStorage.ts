@@ -0,0 +1,65 @@
+export type StorageAreaName = 'local' | 'sync'
+
+// chrome.storage with a localStorage fallback for when the popup runs outside the extension,
+// e.g. on the dev server. The fallback keeps each item as JSON under its own key.
+export class ExtensionStorage {
+  private readonly area: StorageAreaName
+
+  constructor(area: StorageAreaName) {
+    this.area = area
+  }
+
+  isExtensionStorage(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.storage?.[this.area]
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    if (this.isExtensionStorage()) {
+      return (await chrome.storage[this.area].get(key))[key]
+    }
+
+    try {
+      const stored = localStorage.getItem(key)
+      return stored === null ? undefined : JSON.parse(stored)
+    } catch {
+      return undefined
+    }
+  }
+
+  // Every item whose key starts with the prefix
+  async getAll(prefix: string): Promise<Record<string, unknown>> {
+    if (this.isExtensionStorage()) {
+      const items: Record<string, unknown> = await chrome.storage[this.area].get(null)
+      return Object.fromEntries(Object.entries(items).filter(([key]) => key.startsWith(prefix)))
+    }
+
+    const items: Record<string, unknown> = {}
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)!
+      if (!key.startsWith(prefix)) continue
+      try {
+        items[key] = JSON.parse(localStorage.getItem(key)!)
+      } catch {
+        // Skip entries that are not ours
+      }
+    }
+    return items
+  }
+
+  // Quota errors are passed on so callers can word them for what they store
+  async set(items: Record<string, unknown>): Promise<void> {
+    if (this.isExtensionStorage()) {
+      await chrome.storage[this.area].set(items)
+      return
+    }
+    Object.entries(items).forEach(([key, value]) => localStorage.setItem(key, JSON.stringify(value)))
+  }
+
+  async remove(key: string): Promise<void> {
+    if (this.isExtensionStorage()) {
+      await chrome.storage[this.area].remove(key)
+    } else {
+      localStorage.removeItem(key)
+    }
+  }
+}
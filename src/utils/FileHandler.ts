@@ -1,3 +1,5 @@
+import { MetadataReader, ImageMetadata, RawMetadata } from './MetadataReader'
+
 export interface FileValidation {
   valid: boolean
   error?: string
@@ -9,13 +11,26 @@ export interface FileInfo {
   type: string
 }
 
+export interface LoadedImage {
+  // Upright image data, with any EXIF orientation already applied to the pixels
+  dataUrl: string
+  metadata: ImageMetadata
+  rawMetadata: RawMetadata
+}
+
 export class FileHandler {
-  private readonly maxFileSize = 10 * 1024 * 1024 // 10MB
+  private readonly metadataReader = new MetadataReader()
+  // Set from the upload size preference
+  private maxFileSize = 10 * 1024 * 1024 // 10MB
   private readonly allowedTypes = [
     'image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif', 
     'image/bmp', 'image/tiff', 'image/avif', 'image/svg+xml', 'image/x-icon'
   ]
 
+  setMaxFileSize(megabytes: number): void {
+    this.maxFileSize = megabytes * 1024 * 1024
+  }
+
   validateImageFile(file: File): FileValidation {
     if (!this.allowedTypes.includes(file.type)) {
       return {
@@ -27,26 +42,41 @@ export class FileHandler {
     if (file.size > this.maxFileSize) {
       return {
         valid: false,
-        error: 'File size must be less than 10MB'
+        error: `File size must be less than ${this.maxFileSize / (1024 * 1024)}MB`
       }
     }
 
     return { valid: true }
   }
 
-  async loadImage(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          resolve(e.target.result as string)
-        } else {
-          reject(new Error('Failed to read file'))
-        }
-      }
-      reader.onerror = () => reject(new Error('Failed to read file'))
-      reader.readAsDataURL(file)
-    })
+  async loadImage(file: File): Promise<LoadedImage> {
+    const buffer = await this.readFile(file)
+    let metadata: ImageMetadata
+    let rawMetadata: RawMetadata
+    try {
+      metadata = this.metadataReader.read(buffer)
+      rawMetadata = this.metadataReader.readRaw(buffer)
+    } catch (error) {
+      // A corrupt metadata block shouldn't stop the image itself from opening
+      console.warn('Ignoring unreadable metadata:', error)
+      metadata = { orientation: 1, hasExif: false, hasXmp: false }
+      rawMetadata = {}
+    }
+
+    if (metadata.orientation === 1) {
+      return { dataUrl: await this.toDataUrl(file), metadata, rawMetadata }
+    }
+
+    // Decode the stored pixels without the browser's own rotation, then orient them here
+    const raw = this.metadataReader.resetOrientation(buffer) ?? buffer
+    const image = await this.decodeImage(new Blob([raw], { type: file.type }))
+    const oriented = this.applyOrientation(image, metadata.orientation)
+    const blob = await new Promise<Blob | null>(resolve => oriented.toBlob(resolve, 'image/png'))
+
+    if (!blob) {
+      throw new Error('Failed to read file')
+    }
+    return { dataUrl: await this.toDataUrl(blob), metadata, rawMetadata }
   }
 
   getFileInfo(file: File): FileInfo {
@@ -66,4 +96,69 @@ export class FileHandler {
     
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
-}
\ No newline at end of file
+
+  private readFile(file: File): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as ArrayBuffer)
+      reader.onerror = () => reject(new Error('Failed to read file'))
+      reader.readAsArrayBuffer(file)
+    })
+  }
+
+  private toDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        if (e.target?.result) {
+          resolve(e.target.result as string)
+        } else {
+          reject(new Error('Failed to read file'))
+        }
+      }
+      reader.onerror = () => reject(new Error('Failed to read file'))
+      reader.readAsDataURL(blob)
+    })
+  }
+
+  private decodeImage(blob: Blob): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(blob)
+    return new Promise((resolve, reject) => {
+      const image = new Image()
+      image.onload = () => {
+        URL.revokeObjectURL(url)
+        resolve(image)
+      }
+      image.onerror = () => {
+        URL.revokeObjectURL(url)
+        reject(new Error('Failed to decode image'))
+      }
+      image.src = url
+    })
+  }
+
+  // Transforms for EXIF orientations 2-8; 5-8 swap width and height
+  private applyOrientation(image: HTMLImageElement, orientation: number): HTMLCanvasElement {
+    const width = image.naturalWidth
+    const height = image.naturalHeight
+    const canvas = document.createElement('canvas')
+    const ctx = canvas.getContext('2d')!
+    const transposed = orientation >= 5
+
+    canvas.width = transposed ? height : width
+    canvas.height = transposed ? width : height
+
+    switch (orientation) {
+      case 2: ctx.transform(-1, 0, 0, 1, width, 0); break
+      case 3: ctx.transform(-1, 0, 0, -1, width, height); break
+      case 4: ctx.transform(1, 0, 0, -1, 0, height); break
+      case 5: ctx.transform(0, 1, 1, 0, 0, 0); break
+      case 6: ctx.transform(0, 1, -1, 0, height, 0); break
+      case 7: ctx.transform(0, -1, -1, 0, height, width); break
+      case 8: ctx.transform(0, -1, 1, 0, 0, width); break
+    }
+    ctx.drawImage(image, 0, 0)
+
+    return canvas
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { FilenameContext, FilenameTemplate } from './FilenameTemplate'
+
+const context: FilenameContext = {
+  name: 'holiday photo.JPEG',
+  width: 1919.6,
+  height: 1080,
+  format: 'webp',
+  extension: 'webp',
+  quality: 82.4,
+  date: new Date(2024, 0, 5)
+}
+
+describe('FilenameTemplate', () => {
+  const template = new FilenameTemplate()
+
+  describe('render', () => {
+    it('fills every token and adds the extension', () => {
+      expect(template.render('{name}_{width}x{height}_{format}_q{quality}_{date}_{index}', { ...context, index: 3 }))
+        .toBe('holiday photo_1920x1080_webp_q82_2024-01-05_3.webp')
+    })
+
+    it('uses the name alone for an empty template', () => {
+      expect(template.render('', context)).toBe('holiday photo.webp')
+    })
+
+    it('drops an empty token together with its separator', () => {
+      expect(template.render('{name}-{recipe}', context)).toBe('holiday photo.webp')
+      expect(template.render('{name}-{recipe}', { ...context, recipe: 'Web' })).toBe('holiday photo-Web.webp')
+    })
+
+    it('numbers single downloads as the first file', () => {
+      expect(template.render('{name}-{index}', context)).toBe('holiday photo-1.webp')
+    })
+
+    it('keeps dots that are not an extension', () => {
+      expect(template.render('{name}', { ...context, name: 'v1.2.final' })).toBe('v1.2.webp')
+      expect(template.render('{name}', { ...context, name: 'scan.tar.backup' })).toBe('scan.tar.backup.webp')
+    })
+
+    it('sanitizes values taken from the file', () => {
+      expect(template.render('{name}', { ...context, name: 'a/b:c*.png' })).toBe('a-b-c.webp')
+      expect(template.render('{recipe}', { ...context, recipe: 'CON' })).toBe('_CON.webp')
+    })
+  })
+
+  describe('findUnknownTokens', () => {
+    it('reports tokens the renderer does not know', () => {
+      expect(template.findUnknownTokens('{name}-{size}-{Date}')).toEqual(['size', 'Date'])
+      expect(template.findUnknownTokens('{name}_{width}x{height}')).toEqual([])
+    })
+  })
+
+  describe('sanitize', () => {
+    it('replaces characters that are invalid in file names', () => {
+      expect(template.sanitize('a<b>c:d"e/f\\g|h?i*j')).toBe('a-b-c-d-e-f-g-h-i-j')
+    })
+
+    it('trims separators and collapses whitespace', () => {
+      expect(template.sanitize('  -_my   file._ ')).toBe('my file')
+    })
+
+    it('prefixes reserved Windows names', () => {
+      expect(template.sanitize('nul')).toBe('_nul')
+      expect(template.sanitize('com1')).toBe('_com1')
+      expect(template.sanitize('console')).toBe('console')
+    })
+
+    it('limits the length to 150 characters', () => {
+      expect(template.sanitize('x'.repeat(200))).toHaveLength(150)
+    })
+
+    it('falls back to a default name when nothing is left', () => {
+      expect(template.sanitize('...')).toBe('image')
+    })
+  })
+})
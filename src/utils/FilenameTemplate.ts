@@ -0,0 +1,73 @@
+export interface FilenameContext {
+  // Original file name, with or without extension
+  name: string
+  width: number
+  height: number
+  format: string
+  extension: string
+  quality: number
+  recipe?: string
+  // 1-based position in a batch; single downloads use 1
+  index?: number
+  date?: Date
+}
+
+export const FILENAME_TOKENS = ['name', 'width', 'height', 'format', 'quality', 'date', 'recipe', 'index'] as const
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}'
+
+// content.js mirrors render() and sanitize() for context-menu exports; keep the two in step
+export class FilenameTemplate {
+  private readonly fallbackName = 'image'
+  private readonly maxLength = 150
+  private readonly reservedNames = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i
+
+  // Builds a complete file name including the extension
+  render(template: string, context: FilenameContext): string {
+    const values: Record<string, string> = {
+      name: this.getBaseName(context.name),
+      width: Math.round(context.width).toString(),
+      height: Math.round(context.height).toString(),
+      format: context.format,
+      quality: Math.round(context.quality).toString(),
+      date: this.formatDate(context.date || new Date()),
+      recipe: context.recipe || '',
+      index: (context.index || 1).toString()
+    }
+
+    // An empty token takes its leading separator with it, so '{name}-{recipe}' never ends in '-'
+    const baseName = (template || DEFAULT_FILENAME_TEMPLATE).replace(/([-_. ]*)\{(\w+)\}/g, (token, separator: string, key: string) => {
+      if (!(key in values)) return token
+      return values[key] ? separator + values[key] : ''
+    })
+    return `${this.sanitize(baseName)}.${context.extension}`
+  }
+
+  // Unknown tokens are left in place so typos show up in the preview
+  findUnknownTokens(template: string): string[] {
+    const tokens = Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1])
+    return tokens.filter(token => !(FILENAME_TOKENS as readonly string[]).includes(token))
+  }
+
+  // Safe on Windows, macOS and Linux
+  sanitize(name: string): string {
+    let safe = name
+      .replace(/[<>:"/\\|?*{}\u0000-\u001f]/g, '-')
+      .replace(/\s+/g, ' ')
+      .replace(/^[-_. ]+/, '')
+      .slice(0, this.maxLength)
+      .replace(/[-_. ]+$/, '')
+
+    if (this.reservedNames.test(safe)) safe = `_${safe}`
+    return safe || this.fallbackName
+  }
+
+  private getBaseName(fileName: string): string {
+    return fileName.replace(/\.[a-z0-9]{1,5}$/i, '') || this.fallbackName
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+}
@@ -1,56 +1,422 @@
+import { CubeLut, LutManager } from './LutManager'
+import { CurvesSettings, LevelsSettings, ToneLuts, ToneManager } from './ToneManager'
+
 export interface FilterOptions {
   brightness: number
   contrast: number
   saturation: number
   blur: number
+  // A built-in preset name, or 'lut:<id>' for an imported LUT
   filter: string
+  // How strongly an imported LUT is blended in, 0-100
+  lutIntensity: number
+  levels: LevelsSettings
+  curves: CurvesSettings
+  // Stops of light, applied in linear light
+  exposure: number
+  // -100 (cool) to 100 (warm) and -100 (green) to 100 (magenta)
+  temperature: number
+  tint: number
+  // Saturation boost that spares already saturated colors, -100 to 100
+  vibrance: number
+  // Degrees
+  hue: number
+  // -100 to 100; lift or pull down the bright and dark tones
+  highlights: number
+  shadows: number
+  // -100 darkens the corners, 100 lightens them
+  vignette: number
+  // Unsharp mask: strength in percent and radius in output pixels
+  sharpenAmount: number
+  sharpenRadius: number
+}
+
+// The numeric settings, each driven by one slider
+export type AdjustmentKey = Exclude<keyof FilterOptions, 'filter' | 'levels' | 'curves'>
+
+// How the pixels being filtered relate to the exported image. The preview is rendered
+// smaller and uncropped, so spatial filters are scaled and the vignette follows the crop.
+export interface FilterView {
+  scale: number
+  frame?: { x: number; y: number; width: number; height: number }
+}
+
+export type FilterFunction = 'brightness' | 'contrast' | 'saturate' | 'grayscale' | 'sepia' | 'hue-rotate'
+
+export interface FilterStep {
+  fn: FilterFunction
+  amount: number
 }
 
+// Affine color transform: [r, g, b, offset] for each output channel (0-255 space)
+type ColorMatrix = number[]
+
 export class FilterManager {
-  applyFilters(element: HTMLImageElement, options: FilterOptions): void {
-    const filters = []
-    
+  private readonly toneManager = new ToneManager()
+  private readonly lutManager = new LutManager()
+  private luts = new Map<string, CubeLut>()
+  private readonly presets: Record<string, FilterStep[]> = {
+    none: [],
+    grayscale: [{ fn: 'grayscale', amount: 100 }],
+    sepia: [{ fn: 'sepia', amount: 100 }],
+    vintage: [{ fn: 'sepia', amount: 50 }, { fn: 'contrast', amount: 120 }, { fn: 'brightness', amount: 90 }],
+    cool: [{ fn: 'hue-rotate', amount: 180 }, { fn: 'saturate', amount: 120 }],
+    warm: [{ fn: 'hue-rotate', amount: 30 }, { fn: 'saturate', amount: 110 }, { fn: 'brightness', amount: 110 }],
+    noir: [{ fn: 'grayscale', amount: 100 }, { fn: 'contrast', amount: 150 }, { fn: 'brightness', amount: 80 }],
+    vivid: [{ fn: 'saturate', amount: 150 }, { fn: 'contrast', amount: 110 }, { fn: 'brightness', amount: 105 }]
+  }
+
+  // Imported LUTs become available as 'lut:<id>' filters
+  setLuts(luts: CubeLut[]): void {
+    this.luts = new Map(luts.map(lut => [`lut:${lut.id}`, lut]))
+  }
+
+  getLut(filter: string): CubeLut | null {
+    return this.luts.get(filter) || null
+  }
+
+  isIdentity(options: FilterOptions): boolean {
+    return this.getColorSteps(options).length === 0 &&
+      !this.getActiveLut(options) &&
+      options.blur === 0 &&
+      options.exposure === 0 &&
+      options.temperature === 0 &&
+      options.tint === 0 &&
+      options.vibrance === 0 &&
+      options.highlights === 0 &&
+      options.shadows === 0 &&
+      options.vignette === 0 &&
+      options.sharpenAmount === 0 &&
+      this.toneManager.isIdentity(options.levels, options.curves)
+  }
+
+  getColorSteps(options: FilterOptions): FilterStep[] {
+    const steps: FilterStep[] = []
+
     if (options.brightness !== 100) {
-      filters.push(`brightness(${options.brightness}%)`)
+      steps.push({ fn: 'brightness', amount: options.brightness })
     }
-    
+
     if (options.contrast !== 100) {
-      filters.push(`contrast(${options.contrast}%)`)
+      steps.push({ fn: 'contrast', amount: options.contrast })
     }
-    
+
     if (options.saturation !== 100) {
-      filters.push(`saturate(${options.saturation}%)`)
+      steps.push({ fn: 'saturate', amount: options.saturation })
+    }
+
+    if (options.hue !== 0) {
+      steps.push({ fn: 'hue-rotate', amount: options.hue })
+    }
+
+    return [...steps, ...(this.presets[options.filter] || [])]
+  }
+
+  // Light and white balance first, then tone, color, the tone curves, and the spatial filters last
+  applyToImageData(imageData: ImageData, options: FilterOptions, view: FilterView = { scale: 1 }): void {
+    if (options.exposure !== 0 || options.temperature !== 0 || options.tint !== 0) {
+      this.toneManager.applyToImageData(imageData, this.getWhiteBalanceLuts(options))
     }
-    
+
+    if (options.highlights !== 0 || options.shadows !== 0) {
+      this.applyHighlightsShadows(imageData, options.highlights / 100, options.shadows / 100)
+    }
+
+    const matrices = this.getColorSteps(options).map(step => this.getColorMatrix(step))
+    if (matrices.length > 0) {
+      this.applyColorMatrices(imageData, matrices)
+    }
+
+    const lut = this.getActiveLut(options)
+    if (lut) {
+      this.lutManager.applyToImageData(imageData, lut, options.lutIntensity / 100)
+    }
+
+    if (options.vibrance !== 0) {
+      this.applyVibrance(imageData, options.vibrance / 100)
+    }
+
+    if (!this.toneManager.isIdentity(options.levels, options.curves)) {
+      this.toneManager.applyToImageData(imageData, this.toneManager.buildLuts(options.levels, options.curves))
+    }
+
+    if (options.vignette !== 0) {
+      this.applyVignette(imageData, options.vignette / 100, view.frame)
+    }
+
     if (options.blur > 0) {
-      filters.push(`blur(${options.blur}px)`)
-    }
-    
-    // Apply preset filters
-    switch (options.filter) {
-      case 'grayscale':
-        filters.push('grayscale(100%)')
-        break
-      case 'sepia':
-        filters.push('sepia(100%)')
-        break
-      case 'vintage':
-        filters.push('sepia(50%)', 'contrast(120%)', 'brightness(90%)')
-        break
-      case 'cool':
-        filters.push('hue-rotate(180deg)', 'saturate(120%)')
-        break
-      case 'warm':
-        filters.push('hue-rotate(30deg)', 'saturate(110%)', 'brightness(110%)')
-        break
-      case 'noir':
-        filters.push('grayscale(100%)', 'contrast(150%)', 'brightness(80%)')
-        break
-      case 'vivid':
-        filters.push('saturate(150%)', 'contrast(110%)', 'brightness(105%)')
-        break
-    }
-    
-    element.style.filter = filters.join(' ')
-  }
-}
\ No newline at end of file
+      this.gaussianBlur(imageData, options.blur * view.scale)
+    }
+
+    if (options.sharpenAmount > 0) {
+      this.unsharpMask(imageData, options.sharpenAmount / 100, options.sharpenRadius * view.scale)
+    }
+  }
+
+  // A LUT that was deleted since the edit was made is skipped, like an unknown preset
+  private getActiveLut(options: FilterOptions): CubeLut | null {
+    return options.lutIntensity > 0 ? this.getLut(options.filter) : null
+  }
+
+  // Per-channel gains in linear light, so +1 EV doubles the light rather than the sRGB value
+  private getWhiteBalanceLuts(options: FilterOptions): ToneLuts {
+    const exposure = Math.pow(2, options.exposure)
+    const warmth = options.temperature / 100
+    const tint = options.tint / 100
+    const gains = {
+      red: exposure * (1 + 0.3 * warmth),
+      green: exposure * (1 - 0.3 * tint),
+      blue: exposure * (1 - 0.3 * warmth)
+    }
+
+    const build = (gain: number) => {
+      const lut = new Uint8Array(256)
+      for (let value = 0; value < 256; value++) {
+        lut[value] = Math.round(this.toSrgb(this.toLinear(value / 255) * gain) * 255)
+      }
+      return lut
+    }
+    return { red: build(gains.red), green: build(gains.green), blue: build(gains.blue) }
+  }
+
+  private toLinear(value: number): number {
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+  }
+
+  private toSrgb(value: number): number {
+    const clamped = Math.min(1, Math.max(0, value))
+    return clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055
+  }
+
+  // Scales each pixel by how much its luminance should move, which keeps its hue.
+  // The weights peak at a third and two thirds of the range and vanish at black and white.
+  private applyHighlightsShadows(imageData: ImageData, highlights: number, shadows: number): void {
+    const gains = new Float64Array(256)
+    // Pixels that round to black (e.g. pure blue at 1) have no luminance to scale, so they keep theirs
+    gains[0] = 1
+    for (let level = 1; level < 256; level++) {
+      const luma = level / 255
+      const shadowWeight = 6.75 * luma * (1 - luma) * (1 - luma)
+      const highlightWeight = 6.75 * luma * luma * (1 - luma)
+      const target = luma + 0.14 * (shadows * shadowWeight + highlights * highlightWeight)
+      gains[level] = Math.max(0, target) / luma
+    }
+
+    const data = imageData.data
+    for (let i = 0; i < data.length; i += 4) {
+      const gain = gains[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]
+      data[i] = data[i] * gain
+      data[i + 1] = data[i + 1] * gain
+      data[i + 2] = data[i + 2] * gain
+    }
+  }
+
+  // Pushes colors away from (or towards) their luminance, scaled by how unsaturated they are
+  private applyVibrance(imageData: ImageData, vibrance: number): void {
+    const data = imageData.data
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i]
+      const g = data[i + 1]
+      const b = data[i + 2]
+      const saturation = (Math.max(r, g, b) - Math.min(r, g, b)) / 255
+      const factor = 1 + vibrance * (1 - saturation)
+      const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b
+
+      data[i] = luma + (r - luma) * factor
+      data[i + 1] = luma + (g - luma) * factor
+      data[i + 2] = luma + (b - luma) * factor
+    }
+  }
+
+  // Elliptical falloff that starts 30% of the way out and reaches full strength in the corners
+  private applyVignette(imageData: ImageData, amount: number, frame?: FilterView['frame']): void {
+    const { width, height, data } = imageData
+    const area = frame || { x: 0, y: 0, width, height }
+    const centerX = area.x + area.width / 2
+    const centerY = area.y + area.height / 2
+
+    for (let y = 0; y < height; y++) {
+      const dy = (y + 0.5 - centerY) / (area.height / 2)
+      for (let x = 0; x < width; x++) {
+        const dx = (x + 0.5 - centerX) / (area.width / 2)
+        const distance = Math.min(1, Math.sqrt((dx * dx + dy * dy) / 2))
+        const t = Math.max(0, (distance - 0.3) / 0.7)
+        const weight = amount * t * t * (3 - 2 * t)
+        if (weight === 0) continue
+
+        const i = (y * width + x) * 4
+        for (let c = 0; c < 3; c++) {
+          data[i + c] = weight < 0 ? data[i + c] * (1 + weight) : data[i + c] + (255 - data[i + c]) * weight
+        }
+      }
+    }
+  }
+
+  // Adds back the difference from a blurred copy; alpha is left alone
+  private unsharpMask(imageData: ImageData, amount: number, radius: number): void {
+    const blurred = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height)
+    this.gaussianBlur(blurred, radius)
+
+    const data = imageData.data
+    const soft = blurred.data
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = data[i] + (data[i] - soft[i]) * amount
+      data[i + 1] = data[i + 1] + (data[i + 1] - soft[i + 1]) * amount
+      data[i + 2] = data[i + 2] + (data[i + 2] - soft[i + 2]) * amount
+    }
+  }
+
+  private applyColorMatrices(imageData: ImageData, matrices: ColorMatrix[]): void {
+    const data = imageData.data
+
+    for (let i = 0; i < data.length; i += 4) {
+      let r = data[i]
+      let g = data[i + 1]
+      let b = data[i + 2]
+
+      // Each filter function clamps its result before the next one runs
+      for (const m of matrices) {
+        const nr = m[0] * r + m[1] * g + m[2] * b + m[3]
+        const ng = m[4] * r + m[5] * g + m[6] * b + m[7]
+        const nb = m[8] * r + m[9] * g + m[10] * b + m[11]
+        r = nr < 0 ? 0 : nr > 255 ? 255 : nr
+        g = ng < 0 ? 0 : ng > 255 ? 255 : ng
+        b = nb < 0 ? 0 : nb > 255 ? 255 : nb
+      }
+
+      data[i] = r
+      data[i + 1] = g
+      data[i + 2] = b
+    }
+  }
+
+  // Matrices follow the Filter Effects Module Level 1 definitions
+  private getColorMatrix(step: FilterStep): ColorMatrix {
+    switch (step.fn) {
+      case 'brightness': {
+        const b = step.amount / 100
+        return [b, 0, 0, 0, 0, b, 0, 0, 0, 0, b, 0]
+      }
+      case 'contrast': {
+        const c = step.amount / 100
+        const offset = (0.5 - 0.5 * c) * 255
+        return [c, 0, 0, offset, 0, c, 0, offset, 0, 0, c, offset]
+      }
+      case 'saturate': {
+        const s = step.amount / 100
+        return [
+          0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s, 0,
+          0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s, 0,
+          0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s, 0
+        ]
+      }
+      case 'grayscale': {
+        const a = 1 - Math.min(1, step.amount / 100)
+        return [
+          0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a, 0,
+          0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a, 0,
+          0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a, 0
+        ]
+      }
+      case 'sepia': {
+        const a = 1 - Math.min(1, step.amount / 100)
+        return [
+          0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a, 0,
+          0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a, 0,
+          0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a, 0
+        ]
+      }
+      case 'hue-rotate': {
+        const angle = (step.amount * Math.PI) / 180
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        return [
+          0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0,
+          0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283, 0,
+          0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0
+        ]
+      }
+    }
+  }
+
+  // Three box blur passes approximate a gaussian with the given standard deviation
+  private gaussianBlur(imageData: ImageData, sigma: number): void {
+    const { width, height, data } = imageData
+    const boxes = this.getBoxSizes(sigma, 3)
+    const buffer = new Uint8ClampedArray(data.length)
+
+    for (const size of boxes) {
+      const radius = (size - 1) / 2
+      this.boxBlurHorizontal(data, buffer, width, height, radius)
+      this.boxBlurVertical(buffer, data, width, height, radius)
+    }
+  }
+
+  private getBoxSizes(sigma: number, passes: number): number[] {
+    const idealWidth = Math.sqrt((12 * sigma * sigma) / passes + 1)
+    let lower = Math.floor(idealWidth)
+    if (lower % 2 === 0) lower--
+    const upper = lower + 2
+
+    const idealCount = (12 * sigma * sigma - passes * lower * lower - 4 * passes * lower - 3 * passes) / (-4 * lower - 4)
+    const lowerCount = Math.round(idealCount)
+
+    return Array.from({ length: passes }, (_, i) => (i < lowerCount ? lower : upper))
+  }
+
+  private boxBlurHorizontal(
+    source: Uint8ClampedArray,
+    target: Uint8ClampedArray,
+    width: number,
+    height: number,
+    radius: number
+  ): void {
+    const span = radius * 2 + 1
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width
+      for (let c = 0; c < 4; c++) {
+        // Edge pixels are repeated so the borders don't fade to transparent
+        let sum = 0
+        for (let k = -radius; k <= radius; k++) {
+          const x = Math.min(width - 1, Math.max(0, k))
+          sum += source[(row + x) * 4 + c]
+        }
+
+        for (let x = 0; x < width; x++) {
+          target[(row + x) * 4 + c] = sum / span
+          const addX = Math.min(width - 1, x + radius + 1)
+          const removeX = Math.max(0, x - radius)
+          sum += source[(row + addX) * 4 + c] - source[(row + removeX) * 4 + c]
+        }
+      }
+    }
+  }
+
+  private boxBlurVertical(
+    source: Uint8ClampedArray,
+    target: Uint8ClampedArray,
+    width: number,
+    height: number,
+    radius: number
+  ): void {
+    const span = radius * 2 + 1
+
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        let sum = 0
+        for (let k = -radius; k <= radius; k++) {
+          const y = Math.min(height - 1, Math.max(0, k))
+          sum += source[(y * width + x) * 4 + c]
+        }
+
+        for (let y = 0; y < height; y++) {
+          target[(y * width + x) * 4 + c] = sum / span
+          const addY = Math.min(height - 1, y + radius + 1)
+          const removeY = Math.max(0, y - radius)
+          sum += source[(addY * width + x) * 4 + c] - source[(removeY * width + x) * 4 + c]
+        }
+      }
+    }
+  }
+}
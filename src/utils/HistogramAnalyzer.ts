@@ -0,0 +1,143 @@
+import { RenderCanvas, getContext2d } from './canvas'
+
+export type HistogramChannel = 'rgb' | 'luminance' | 'red' | 'green' | 'blue'
+
+export interface ChannelStats {
+  mean: number
+  median: number
+}
+
+export interface HistogramData {
+  // 256 bins each, counting visible pixels only
+  red: Uint32Array
+  green: Uint32Array
+  blue: Uint32Array
+  luminance: Uint32Array
+  pixelCount: number
+  stats: Record<Exclude<HistogramChannel, 'rgb'>, ChannelStats>
+  // Shares of visible pixels, 0-1: any channel at 255 / every channel at 0
+  clippedHighlights: number
+  clippedShadows: number
+  uniqueColors: number
+  hasTransparency: boolean
+}
+
+export class HistogramAnalyzer {
+  // Most colors a PNG-8 palette can hold
+  readonly paletteLimit = 256
+
+  analyze(canvas: RenderCanvas): HistogramData {
+    const { data } = getContext2d(canvas).getImageData(0, 0, canvas.width, canvas.height)
+    const red = new Uint32Array(256)
+    const green = new Uint32Array(256)
+    const blue = new Uint32Array(256)
+    const luminance = new Uint32Array(256)
+    // One bit per 24-bit color keeps the unique count exact in 2MB
+    const seen = new Uint8Array(1 << 21)
+    let pixelCount = 0
+    let uniqueColors = 0
+    let highlights = 0
+    let shadows = 0
+    let hasTransparency = false
+
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3]
+      if (alpha < 255) hasTransparency = true
+      // Fully transparent pixels have no visible color
+      if (alpha === 0) continue
+
+      const r = data[i]
+      const g = data[i + 1]
+      const b = data[i + 2]
+      red[r]++
+      green[g]++
+      blue[b]++
+      luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++
+      pixelCount++
+
+      if (r === 255 || g === 255 || b === 255) highlights++
+      if (r === 0 && g === 0 && b === 0) shadows++
+
+      const color = (r << 16) | (g << 8) | b
+      const mask = 1 << (color & 7)
+      if (!(seen[color >> 3] & mask)) {
+        seen[color >> 3] |= mask
+        uniqueColors++
+      }
+    }
+
+    return {
+      red,
+      green,
+      blue,
+      luminance,
+      pixelCount,
+      stats: {
+        luminance: this.getStats(luminance, pixelCount),
+        red: this.getStats(red, pixelCount),
+        green: this.getStats(green, pixelCount),
+        blue: this.getStats(blue, pixelCount)
+      },
+      clippedHighlights: pixelCount ? highlights / pixelCount : 0,
+      clippedShadows: pixelCount ? shadows / pixelCount : 0,
+      uniqueColors,
+      hasTransparency
+    }
+  }
+
+  // Draws in the canvas's CSS color for luminance so the graph follows the theme
+  draw(canvas: HTMLCanvasElement, histogram: HistogramData, channel: HistogramChannel): void {
+    const ctx = canvas.getContext('2d')!
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    const series: { bins: Uint32Array; color: string }[] = channel === 'rgb'
+      ? [
+        { bins: histogram.red, color: 'rgba(239, 68, 68, 0.6)' },
+        { bins: histogram.green, color: 'rgba(34, 197, 94, 0.6)' },
+        { bins: histogram.blue, color: 'rgba(59, 130, 246, 0.6)' }
+      ]
+      : [{ bins: histogram[channel], color: this.getChannelColor(canvas, channel) }]
+
+    const scale = Math.max(...series.map(({ bins }) => this.getScaleMax(bins)))
+    if (scale === 0) return
+
+    ctx.globalCompositeOperation = channel === 'rgb' ? 'screen' : 'source-over'
+    const barWidth = canvas.width / 256
+    series.forEach(({ bins, color }) => {
+      ctx.fillStyle = color
+      bins.forEach((count, level) => {
+        const height = Math.min(1, count / scale) * canvas.height
+        ctx.fillRect(level * barWidth, canvas.height - height, barWidth, height)
+      })
+    })
+    ctx.globalCompositeOperation = 'source-over'
+  }
+
+  private getStats(bins: Uint32Array, pixelCount: number): ChannelStats {
+    if (pixelCount === 0) return { mean: 0, median: 0 }
+
+    let sum = 0
+    let cumulative = 0
+    let median = -1
+    bins.forEach((count, level) => {
+      sum += count * level
+      cumulative += count
+      if (median < 0 && cumulative >= pixelCount / 2) median = level
+    })
+    return { mean: sum / pixelCount, median }
+  }
+
+  // Spikes at pure black or white would flatten everything else, so the ends don't set the scale
+  private getScaleMax(bins: Uint32Array): number {
+    let max = 0
+    for (let level = 1; level < 255; level++) {
+      max = Math.max(max, bins[level])
+    }
+    return max || Math.max(bins[0], bins[255])
+  }
+
+  private getChannelColor(canvas: HTMLCanvasElement, channel: Exclude<HistogramChannel, 'rgb'>): string {
+    const colors = { red: 'rgb(239, 68, 68)', green: 'rgb(34, 197, 94)', blue: 'rgb(59, 130, 246)' }
+    return channel === 'luminance' ? getComputedStyle(canvas).color : colors[channel]
+  }
+}
@@ -0,0 +1,94 @@
+import { CompressionManager } from './CompressionManager'
+import { ImageEncoder } from './ImageEncoder'
+import { ResizeManager } from './ResizeManager'
+import { ZipWriter } from './ZipWriter'
+import { RenderCanvas } from './canvas'
+
+export interface IconPackOptions {
+  name: string
+  shortName: string
+  themeColor: string
+  backgroundColor: string
+}
+
+export interface IconPackResult {
+  blob: Blob
+  snippet: string
+  fileCount: number
+}
+
+export class IconPackGenerator {
+  private readonly faviconSizes = [16, 32, 48, 64]
+  private readonly pngIcons = [
+    { name: 'apple-touch-icon.png', size: 180 },
+    { name: 'android-chrome-192x192.png', size: 192 },
+    { name: 'android-chrome-512x512.png', size: 512 }
+  ]
+  private compressionManager: CompressionManager
+  private resizeManager: ResizeManager
+  private imageEncoder: ImageEncoder
+
+  constructor(compressionManager: CompressionManager, resizeManager: ResizeManager) {
+    this.compressionManager = compressionManager
+    this.resizeManager = resizeManager
+    this.imageEncoder = new ImageEncoder()
+  }
+
+  async generate(source: RenderCanvas, options: IconPackOptions): Promise<IconPackResult> {
+    const zip = new ZipWriter()
+
+    // Multi-resolution favicon.ico with one PNG entry per size
+    const faviconEntries = await Promise.all(this.faviconSizes.map(async size => ({
+      width: size,
+      height: size,
+      png: await this.renderIcon(source, size)
+    })))
+    await zip.addFile('favicon.ico', await this.imageEncoder.encodeIco(faviconEntries))
+
+    for (const icon of this.pngIcons) {
+      await zip.addFile(icon.name, await this.renderIcon(source, icon.size))
+    }
+
+    const snippet = this.getHtmlSnippet(options)
+    await zip.addFile('site.webmanifest', this.getManifest(options))
+    await zip.addFile('head-snippet.html', snippet)
+
+    return { blob: zip.generate(), snippet, fileCount: this.pngIcons.length + 4 }
+  }
+
+  getHtmlSnippet(options: IconPackOptions): string {
+    return [
+      `<link rel="icon" href="/favicon.ico" sizes="${this.faviconSizes.map(size => `${size}x${size}`).join(' ')}">`,
+      '<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">',
+      '<link rel="manifest" href="/site.webmanifest">',
+      `<meta name="theme-color" content="${options.themeColor}">`
+    ].join('\n')
+  }
+
+  private getManifest(options: IconPackOptions): string {
+    const manifest = {
+      name: options.name,
+      short_name: options.shortName,
+      icons: this.pngIcons
+        .filter(icon => icon.name.startsWith('android-chrome'))
+        .map(icon => ({ src: `/${icon.name}`, sizes: `${icon.size}x${icon.size}`, type: 'image/png' })),
+      theme_color: options.themeColor,
+      background_color: options.backgroundColor,
+      display: 'standalone'
+    }
+    return JSON.stringify(manifest, null, 2)
+  }
+
+  // Icons are square, so non-square sources are center-cropped
+  private renderIcon(source: RenderCanvas, size: number): Promise<Blob> {
+    const canvas = this.resizeManager.resize(source, {
+      mode: 'fill',
+      width: size,
+      height: size,
+      percent: 100,
+      longEdge: 0,
+      maintainAspectRatio: true
+    })
+    return this.compressionManager.encode(canvas, 'png')
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { ImageEncoder } from './ImageEncoder'
+
+// Node has no ImageData; the encoders only read width, height and data
+function createImageData(width: number, height: number, pixels: number[]): ImageData {
+  return { width, height, data: new Uint8ClampedArray(pixels), colorSpace: 'srgb' } as ImageData
+}
+
+async function toView(blob: Blob): Promise<DataView> {
+  return new DataView(await blob.arrayBuffer())
+}
+
+// 2x1: opaque red, half-transparent blue
+const pixels = createImageData(2, 1, [255, 0, 0, 255, 0, 0, 255, 128])
+
+describe('ImageEncoder', () => {
+  const encoder = new ImageEncoder()
+
+  describe('encodeBmp', () => {
+    it('writes a top-down 32-bit BGRA bitmap', async () => {
+      const blob = encoder.encodeBmp(pixels)
+      const view = await toView(blob)
+
+      expect(blob.type).toBe('image/bmp')
+      expect(String.fromCharCode(view.getUint8(0), view.getUint8(1))).toBe('BM')
+      expect(view.getUint32(2, true)).toBe(blob.size)
+      expect(view.getInt32(18, true)).toBe(2)
+      expect(view.getInt32(22, true)).toBe(-1)
+      expect(view.getUint16(28, true)).toBe(32)
+
+      const offset = view.getUint32(10, true)
+      expect(Array.from(new Uint8Array(view.buffer, offset))).toEqual([0, 0, 255, 255, 255, 0, 0, 128])
+    })
+  })
+
+  describe('encodeTiff', () => {
+    it('writes a little-endian RGBA strip with sorted tags', async () => {
+      const blob = encoder.encodeTiff(pixels)
+      const view = await toView(blob)
+
+      expect(blob.type).toBe('image/tiff')
+      expect(view.getUint16(0)).toBe(0x4949)
+      expect(view.getUint16(2, true)).toBe(42)
+
+      const ifd = view.getUint32(4, true)
+      const count = view.getUint16(ifd, true)
+      const tags = new Map<number, number>()
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12
+        const type = view.getUint16(entry + 2, true)
+        tags.set(view.getUint16(entry, true), type === 3 ? view.getUint16(entry + 8, true) : view.getUint32(entry + 8, true))
+      }
+
+      expect([...tags.keys()]).toEqual([...tags.keys()].sort((a, b) => a - b))
+      expect(tags.get(256)).toBe(2)
+      expect(tags.get(257)).toBe(1)
+      expect(tags.get(277)).toBe(4)
+      expect(tags.get(279)).toBe(8)
+
+      const stripOffset = tags.get(273)!
+      expect(Array.from(new Uint8Array(view.buffer, stripOffset))).toEqual([255, 0, 0, 255, 0, 0, 255, 128])
+    })
+  })
+
+  describe('encodeIco', () => {
+    it('lists each PNG entry and stores 256px sizes as 0', async () => {
+      const small = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' })
+      const large = new Blob([new Uint8Array([4, 5])], { type: 'image/png' })
+      const blob = await encoder.encodeIco([
+        { width: 16, height: 16, png: small },
+        { width: 256, height: 256, png: large }
+      ])
+      const view = await toView(blob)
+
+      expect(view.getUint16(2, true)).toBe(1)
+      expect(view.getUint16(4, true)).toBe(2)
+      expect(view.getUint8(6)).toBe(16)
+      expect(view.getUint8(22)).toBe(0)
+      expect(view.getUint8(23)).toBe(0)
+
+      const first = { size: view.getUint32(14, true), offset: view.getUint32(18, true) }
+      const second = { size: view.getUint32(30, true), offset: view.getUint32(34, true) }
+      expect(first).toEqual({ size: 3, offset: 6 + 2 * 16 })
+      expect(second).toEqual({ size: 2, offset: first.offset + 3 })
+      expect(Array.from(new Uint8Array(view.buffer, second.offset))).toEqual([4, 5])
+      expect(await encoder.matchesFormat(blob, 'image/x-icon')).toBe(true)
+    })
+  })
+
+  describe('encodeSvg', () => {
+    it('embeds the raster as a base64 data URL at the given size', async () => {
+      const raster = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/png' })
+      const blob = await encoder.encodeSvg(raster, 40, 30)
+      const svg = await blob.text()
+
+      expect(blob.type).toBe('image/svg+xml')
+      expect(svg).toContain('viewBox="0 0 40 30"')
+      expect(svg).toContain(`xlink:href="data:image/png;base64,${btoa('\x89PNG')}"`)
+      expect(await encoder.matchesFormat(blob, 'image/svg+xml')).toBe(true)
+    })
+  })
+
+  describe('matchesFormat', () => {
+    it('rejects a browser fallback with the wrong signature', async () => {
+      const png = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/webp' })
+      expect(await encoder.matchesFormat(png, 'image/webp')).toBe(false)
+      expect(await encoder.matchesFormat(encoder.encodeBmp(pixels), 'image/bmp')).toBe(true)
+      expect(await encoder.matchesFormat(encoder.encodeTiff(pixels), 'image/tiff')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,192 @@
+export interface IconEntry {
+  width: number
+  height: number
+  png: Blob
+}
+
+export class ImageEncoder {
+  // 32-bit BGRA bitmap with a BITMAPV4HEADER so the alpha channel survives
+  encodeBmp(imageData: ImageData): Blob {
+    const { width, height, data } = imageData
+    const fileHeaderSize = 14
+    const infoHeaderSize = 108
+    const pixelOffset = fileHeaderSize + infoHeaderSize
+    const pixelBytes = width * height * 4
+    const buffer = new ArrayBuffer(pixelOffset + pixelBytes)
+    const view = new DataView(buffer)
+
+    // BITMAPFILEHEADER
+    view.setUint8(0, 0x42)
+    view.setUint8(1, 0x4d)
+    view.setUint32(2, buffer.byteLength, true)
+    view.setUint32(10, pixelOffset, true)
+
+    // BITMAPV4HEADER
+    view.setUint32(14, infoHeaderSize, true)
+    view.setInt32(18, width, true)
+    view.setInt32(22, -height, true) // negative height stores rows top-down
+    view.setUint16(26, 1, true)
+    view.setUint16(28, 32, true)
+    view.setUint32(30, 3, true) // BI_BITFIELDS
+    view.setUint32(34, pixelBytes, true)
+    view.setInt32(38, 2835, true) // 72 DPI in pixels per meter
+    view.setInt32(42, 2835, true)
+    view.setUint32(54, 0x00ff0000, true) // red mask
+    view.setUint32(58, 0x0000ff00, true) // green mask
+    view.setUint32(62, 0x000000ff, true) // blue mask
+    view.setUint32(66, 0xff000000, true) // alpha mask
+    view.setUint32(70, 0x73524742, true) // 'sRGB' color space
+
+    const pixels = new Uint8Array(buffer, pixelOffset)
+    for (let i = 0; i < data.length; i += 4) {
+      pixels[i] = data[i + 2]
+      pixels[i + 1] = data[i + 1]
+      pixels[i + 2] = data[i]
+      pixels[i + 3] = data[i + 3]
+    }
+
+    return new Blob([buffer], { type: 'image/bmp' })
+  }
+
+  // Baseline little-endian TIFF: one uncompressed RGBA strip
+  encodeTiff(imageData: ImageData): Blob {
+    const { width, height, data } = imageData
+    const tags: Array<[tag: number, type: number, count: number, value: number]> = []
+    const headerSize = 8
+    const entryCount = 13
+    const ifdSize = 2 + entryCount * 12 + 4
+    const bitsOffset = headerSize + ifdSize
+    const resolutionOffset = bitsOffset + 8
+    const pixelOffset = resolutionOffset + 16
+
+    // Tags must be sorted by id; type 3 = SHORT, 4 = LONG, 5 = RATIONAL
+    tags.push([256, 4, 1, width])
+    tags.push([257, 4, 1, height])
+    tags.push([258, 3, 4, bitsOffset])
+    tags.push([259, 3, 1, 1]) // no compression
+    tags.push([262, 3, 1, 2]) // RGB
+    tags.push([273, 4, 1, pixelOffset])
+    tags.push([277, 3, 1, 4])
+    tags.push([278, 4, 1, height])
+    tags.push([279, 4, 1, data.length])
+    tags.push([282, 5, 1, resolutionOffset])
+    tags.push([283, 5, 1, resolutionOffset + 8])
+    tags.push([296, 3, 1, 2]) // inches
+    tags.push([338, 3, 1, 2]) // unassociated alpha
+
+    const buffer = new ArrayBuffer(pixelOffset + data.length)
+    const view = new DataView(buffer)
+
+    view.setUint16(0, 0x4949) // 'II'
+    view.setUint16(2, 42, true)
+    view.setUint32(4, headerSize, true)
+
+    view.setUint16(headerSize, entryCount, true)
+    tags.forEach(([tag, type, count, value], index) => {
+      const entry = headerSize + 2 + index * 12
+      view.setUint16(entry, tag, true)
+      view.setUint16(entry + 2, type, true)
+      view.setUint32(entry + 4, count, true)
+      if (type === 3 && count === 1) {
+        view.setUint16(entry + 8, value, true)
+      } else {
+        view.setUint32(entry + 8, value, true)
+      }
+    })
+    view.setUint32(headerSize + 2 + entryCount * 12, 0, true) // no further IFDs
+
+    for (let i = 0; i < 4; i++) {
+      view.setUint16(bitsOffset + i * 2, 8, true)
+    }
+    view.setUint32(resolutionOffset, 72, true)
+    view.setUint32(resolutionOffset + 4, 1, true)
+    view.setUint32(resolutionOffset + 8, 72, true)
+    view.setUint32(resolutionOffset + 12, 1, true)
+
+    new Uint8Array(buffer, pixelOffset).set(data)
+
+    return new Blob([buffer], { type: 'image/tiff' })
+  }
+
+  // ICO container with PNG-compressed entries, one per size
+  async encodeIco(entries: IconEntry[]): Promise<Blob> {
+    const headerSize = 6
+    const directorySize = entries.length * 16
+    const images = await Promise.all(entries.map(entry => entry.png.arrayBuffer()))
+
+    const header = new DataView(new ArrayBuffer(headerSize + directorySize))
+    header.setUint16(0, 0, true)
+    header.setUint16(2, 1, true) // icon
+    header.setUint16(4, entries.length, true)
+
+    let offset = headerSize + directorySize
+    entries.forEach((entry, index) => {
+      const directory = headerSize + index * 16
+      // A stored 0 means 256 pixels
+      header.setUint8(directory, entry.width >= 256 ? 0 : entry.width)
+      header.setUint8(directory + 1, entry.height >= 256 ? 0 : entry.height)
+      header.setUint8(directory + 2, 0)
+      header.setUint8(directory + 3, 0)
+      header.setUint16(directory + 4, 1, true)
+      header.setUint16(directory + 6, 32, true)
+      header.setUint32(directory + 8, images[index].byteLength, true)
+      header.setUint32(directory + 12, offset, true)
+      offset += images[index].byteLength
+    })
+
+    return new Blob([header.buffer, ...images], { type: 'image/x-icon' })
+  }
+
+  // Wraps a raster image in an SVG document so it opens anywhere SVG is accepted
+  async encodeSvg(raster: Blob, width: number, height: number): Promise<Blob> {
+    const base64 = this.toBase64(new Uint8Array(await raster.arrayBuffer()))
+    const svg = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `  <image width="${width}" height="${height}" preserveAspectRatio="none" ` +
+        `xlink:href="data:${raster.type};base64,${base64}"/>`,
+      '</svg>'
+    ].join('\n')
+
+    return new Blob([svg], { type: 'image/svg+xml' })
+  }
+
+  // Checks the leading bytes so a browser fallback (e.g. PNG for an unsupported type) is caught
+  async matchesFormat(blob: Blob, mimeType: string): Promise<boolean> {
+    if (blob.type !== mimeType) return false
+
+    const bytes = new Uint8Array(await blob.slice(0, 512).arrayBuffer())
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end))
+
+    switch (mimeType) {
+      case 'image/jpeg':
+        return bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff
+      case 'image/png':
+        return bytes[0] === 0x89 && ascii(1, 4) === 'PNG'
+      case 'image/webp':
+        return ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP'
+      case 'image/avif':
+        return ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))
+      case 'image/bmp':
+        return ascii(0, 2) === 'BM'
+      case 'image/tiff':
+        return ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*'
+      case 'image/x-icon':
+        return bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0
+      case 'image/svg+xml':
+        return ascii(0, bytes.length).includes('<svg')
+      default:
+        return true
+    }
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    let binary = ''
+    const chunkSize = 0x8000
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+    }
+    return btoa(binary)
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { CubeLut, LutManager } from './LutManager'
+
+// Red varies fastest, as in the .cube format; map gives each grid point's output
+function cube(size: number, map: (r: number, g: number, b: number) => number[] = (r, g, b) => [r, g, b]): string {
+  const rows: string[] = []
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        rows.push(map(r / (size - 1), g / (size - 1), b / (size - 1)).map(value => value.toFixed(6)).join(' '))
+      }
+    }
+  }
+  return rows.join('\n')
+}
+
+function pixel(r: number, g: number, b: number): ImageData {
+  return { width: 1, height: 1, data: new Uint8ClampedArray([r, g, b, 255]), colorSpace: 'srgb' } as ImageData
+}
+
+describe('LutManager', () => {
+  const manager = new LutManager()
+
+  describe('parse', () => {
+    it('reads the size, title and table', () => {
+      const lut = manager.parse(`# Created by hand\nTITLE "Warm Fade"\nLUT_3D_SIZE 2\n\n${cube(2)}\n`, 'warm.cube')
+
+      expect(lut.name).toBe('Warm Fade')
+      expect(lut.size).toBe(2)
+      expect(lut.table).toHaveLength(2 * 2 * 2 * 3)
+      // Second entry is red at full, the others at zero
+      expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0])
+      expect(lut.domainMin).toEqual([0, 0, 0])
+      expect(lut.domainMax).toEqual([1, 1, 1])
+    })
+
+    it('names the LUT after the file without a title', () => {
+      expect(manager.parse(`LUT_3D_SIZE 2\n${cube(2)}`, 'Teal Orange.CUBE').name).toBe('Teal Orange')
+    })
+
+    it('accepts CRLF line endings, vendor keywords and domains', () => {
+      const text = ['LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE 0 2', 'DOMAIN_MIN 0 0 0.5', 'VENDOR_THING 7', cube(2)].join('\r\n')
+      const lut = manager.parse(text, 'a.cube')
+
+      expect(lut.domainMin).toEqual([0, 0, 0.5])
+      expect(lut.domainMax).toEqual([2, 2, 2])
+    })
+
+    it('rejects 1D LUTs', () => {
+      expect(() => manager.parse('LUT_1D_SIZE 1024\n0 0 0', 'a.cube')).toThrow('1D LUTs are not supported')
+    })
+
+    it('rejects a table without a size', () => {
+      expect(() => manager.parse('0 0 0', 'a.cube')).toThrow('LUT_3D_SIZE must come before the table')
+      expect(() => manager.parse('TITLE "x"', 'a.cube')).toThrow('missing LUT_3D_SIZE')
+    })
+
+    it('rejects sizes outside the supported range', () => {
+      expect(() => manager.parse('LUT_3D_SIZE 1', 'a.cube')).toThrow('between 2 and 65')
+      expect(() => manager.parse('LUT_3D_SIZE 66', 'a.cube')).toThrow('between 2 and 65')
+    })
+
+    it('rejects too few or too many entries', () => {
+      const rows = cube(2).split('\n')
+      expect(() => manager.parse(`LUT_3D_SIZE 2\n${rows.slice(1).join('\n')}`, 'a.cube')).toThrow('Expected 8 LUT entries, found 7')
+      expect(() => manager.parse(`LUT_3D_SIZE 2\n${cube(2)}\n0 0 0`, 'a.cube')).toThrow('more entries than its size allows')
+    })
+
+    it('rejects malformed entries', () => {
+      expect(() => manager.parse('LUT_3D_SIZE 2\n0 0', 'a.cube')).toThrow('Invalid LUT entry: "0 0"')
+      expect(() => manager.parse('LUT_3D_SIZE 2\n0 x 1', 'a.cube')).toThrow('Invalid LUT entry')
+    })
+
+    it('rejects an empty domain', () => {
+      expect(() => manager.parse(`LUT_3D_SIZE 2\nDOMAIN_MAX 1 0 1\n${cube(2)}`, 'a.cube')).toThrow('DOMAIN_MAX must be greater')
+    })
+  })
+
+  describe('applyToImageData', () => {
+    const toLut = (text: string): CubeLut => ({ id: 'test', ...manager.parse(text, 'test.cube') })
+
+    it('leaves pixels unchanged with an identity table', () => {
+      const image = pixel(12, 128, 250)
+      manager.applyToImageData(image, toLut(`LUT_3D_SIZE 5\n${cube(5)}`), 1)
+      expect(Array.from(image.data)).toEqual([12, 128, 250, 255])
+    })
+
+    it('interpolates between grid points and blends by intensity', () => {
+      const invert = toLut(`LUT_3D_SIZE 2\n${cube(2, (r, g, b) => [1 - r, 1 - g, 1 - b])}`)
+
+      const full = pixel(0, 100, 255)
+      manager.applyToImageData(full, invert, 1)
+      expect(Array.from(full.data)).toEqual([255, 155, 0, 255])
+
+      const half = pixel(0, 100, 255)
+      manager.applyToImageData(half, invert, 0.5)
+      expect(Array.from(half.data)).toEqual([128, 128, 128, 255])
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { ExtensionStorage } from './ExtensionStorage'
+
+export interface CubeLut {
+  id: string
+  name: string
+  // Grid points per axis
+  size: number
+  // size³ RGB triples on the 0-1 scale, red varying fastest as in the .cube format
+  table: Float32Array
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+}
+
+// Stored form: the table quantized to 16 bits and base64 encoded, which keeps a 65-point
+// grid around 2MB instead of the ~10MB its JSON numbers would take
+interface StoredLut {
+  id: string
+  name: string
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  data: string
+}
+
+// Imported 3D LUTs, kept in chrome.storage.local since they are far over the sync quota
+export class LutManager {
+  readonly minSize = 2
+  readonly maxSize = 65
+  private readonly keyPrefix = 'lut:'
+  private readonly storage = new ExtensionStorage('local')
+
+  // Adobe/Resolve .cube text. Only 3D tables are supported.
+  parse(text: string, fileName: string): Omit<CubeLut, 'id'> {
+    let name = fileName.replace(/\.cube$/i, '')
+    let size = 0
+    let domainMin: [number, number, number] = [0, 0, 0]
+    let domainMax: [number, number, number] = [1, 1, 1]
+    let table: Float32Array | null = null
+    let count = 0
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      if (!line || line.startsWith('#')) continue
+
+      const [keyword, ...rest] = line.split(/\s+/)
+      if (/^[-+.\d]/.test(keyword)) {
+        if (!table) {
+          throw new Error('LUT_3D_SIZE must come before the table')
+        }
+        const values = [keyword, ...rest].map(Number)
+        if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+          throw new Error(`Invalid LUT entry: "${line}"`)
+        }
+        if (count >= size * size * size) {
+          throw new Error('The LUT has more entries than its size allows')
+        }
+        table.set(values, count * 3)
+        count++
+        continue
+      }
+
+      switch (keyword) {
+        case 'TITLE':
+          name = line.slice(keyword.length).trim().replace(/^"|"$/g, '') || name
+          break
+        case 'LUT_1D_SIZE':
+          throw new Error('1D LUTs are not supported')
+        case 'LUT_3D_SIZE':
+          size = parseInt(rest[0])
+          if (!(size >= this.minSize && size <= this.maxSize)) {
+            throw new Error(`LUT size must be between ${this.minSize} and ${this.maxSize}`)
+          }
+          table = new Float32Array(size * size * size * 3)
+          break
+        case 'DOMAIN_MIN':
+          domainMin = this.parseTriple(rest, keyword)
+          break
+        case 'DOMAIN_MAX':
+          domainMax = this.parseTriple(rest, keyword)
+          break
+        case 'LUT_3D_INPUT_RANGE': {
+          const [min, max] = rest.map(Number)
+          domainMin = [min, min, min]
+          domainMax = [max, max, max]
+          break
+        }
+        default:
+          // Other keywords are vendor extensions and don't change the table
+          break
+      }
+    }
+
+    if (!table) {
+      throw new Error('Not a 3D .cube LUT (missing LUT_3D_SIZE)')
+    }
+    if (count !== size * size * size) {
+      throw new Error(`Expected ${size * size * size} LUT entries, found ${count}`)
+    }
+    if (domainMin.some((min, i) => !(domainMax[i] > min))) {
+      throw new Error('DOMAIN_MAX must be greater than DOMAIN_MIN')
+    }
+
+    return { name: name || 'LUT', size, table, domainMin, domainMax }
+  }
+
+  // Trilinear lookup, blended with the input by intensity (0-1)
+  applyToImageData(imageData: ImageData, lut: CubeLut, intensity: number): void {
+    const { size, table, domainMin, domainMax } = lut
+    const data = imageData.data
+    const last = size - 1
+    const scales = domainMin.map((min, i) => last / (255 * (domainMax[i] - min)))
+    const offsets = domainMin.map((min, i) => (min * last) / (domainMax[i] - min))
+    const rowStride = size * 3
+    const planeStride = size * size * 3
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = Math.min(last, Math.max(0, data[i] * scales[0] - offsets[0]))
+      const g = Math.min(last, Math.max(0, data[i + 1] * scales[1] - offsets[1]))
+      const b = Math.min(last, Math.max(0, data[i + 2] * scales[2] - offsets[2]))
+      const r0 = Math.min(last - 1, Math.floor(r))
+      const g0 = Math.min(last - 1, Math.floor(g))
+      const b0 = Math.min(last - 1, Math.floor(b))
+      const fr = r - r0
+      const fg = g - g0
+      const fb = b - b0
+      const base = b0 * planeStride + g0 * rowStride + r0 * 3
+
+      for (let c = 0; c < 3; c++) {
+        const p = base + c
+        const c00 = table[p] + (table[p + 3] - table[p]) * fr
+        const c10 = table[p + rowStride] + (table[p + rowStride + 3] - table[p + rowStride]) * fr
+        const c01 = table[p + planeStride] + (table[p + planeStride + 3] - table[p + planeStride]) * fr
+        const c11 = table[p + planeStride + rowStride] +
+          (table[p + planeStride + rowStride + 3] - table[p + planeStride + rowStride]) * fr
+        const c0 = c00 + (c10 - c00) * fg
+        const c1 = c01 + (c11 - c01) * fg
+        const graded = (c0 + (c1 - c0) * fb) * 255
+
+        data[i + c] = data[i + c] + (graded - data[i + c]) * intensity
+      }
+    }
+  }
+
+  async list(): Promise<CubeLut[]> {
+    const items = await this.storage.getAll(this.keyPrefix)
+    return Object.values(items)
+      .map(value => this.decode(value as StoredLut))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async save(lut: Omit<CubeLut, 'id'>): Promise<CubeLut> {
+    const saved: CubeLut = { ...lut, id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}` }
+    try {
+      await this.storage.set({ [this.keyPrefix + saved.id]: this.encode(saved) })
+    } catch {
+      throw new Error('LUT could not be saved (storage quota reached)')
+    }
+    return saved
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.remove(this.keyPrefix + id)
+  }
+
+  private parseTriple(values: string[], keyword: string): [number, number, number] {
+    const triple = values.slice(0, 3).map(Number)
+    if (triple.length !== 3 || triple.some(value => !Number.isFinite(value))) {
+      throw new Error(`Invalid ${keyword}`)
+    }
+    return triple as [number, number, number]
+  }
+
+  private encode(lut: CubeLut): StoredLut {
+    const quantized = new Uint16Array(lut.table.length)
+    lut.table.forEach((value, i) => {
+      quantized[i] = Math.round(Math.min(1, Math.max(0, value)) * 65535)
+    })
+
+    const bytes = new Uint8Array(quantized.buffer)
+    let binary = ''
+    // Chunked so String.fromCharCode doesn't overflow the call stack on large tables
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+
+    const { table: _table, ...rest } = lut
+    return { ...rest, data: btoa(binary) }
+  }
+
+  private decode(stored: StoredLut): CubeLut {
+    const binary = atob(stored.data)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+
+    const quantized = new Uint16Array(bytes.buffer)
+    const table = new Float32Array(quantized.length)
+    quantized.forEach((value, i) => {
+      table[i] = value / 65535
+    })
+
+    const { data: _data, ...rest } = stored
+    return { ...rest, table }
+  }
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest'
+import { MetadataReader } from './MetadataReader'
+
+interface Tag {
+  tag: number
+  // 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL (value holds numerator/denominator pairs)
+  type: 2 | 3 | 4 | 5
+  value: string | number[]
+}
+
+const TYPE_SIZES = { 2: 1, 3: 2, 4: 4, 5: 8 }
+const encoder = new TextEncoder()
+
+// TIFF block with IFD0 followed by the optional EXIF and GPS IFDs, then the out-of-line values
+function buildTiff(ifd0: Tag[], exif: Tag[] = [], gps: Tag[] = [], littleEndian = true): Uint8Array {
+  const main = [...ifd0]
+  if (exif.length) main.push({ tag: 0x8769, type: 4, value: [0] })
+  if (gps.length) main.push({ tag: 0x8825, type: 4, value: [0] })
+  const ifds = [main, exif, gps].filter(tags => tags.length > 0)
+
+  let offset = 8
+  const positions = ifds.map(tags => {
+    const position = offset
+    offset += 2 + tags.length * 12 + 4
+    return position
+  })
+  let next = 1
+  if (exif.length) main.find(item => item.tag === 0x8769)!.value = [positions[next++]]
+  if (gps.length) main.find(item => item.tag === 0x8825)!.value = [positions[next++]]
+
+  const bytes = new Uint8Array(4096)
+  const view = new DataView(bytes.buffer)
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d)
+  view.setUint16(2, 42, littleEndian)
+  view.setUint32(4, 8, littleEndian)
+
+  let data = offset
+  ifds.forEach((tags, index) => {
+    const position = positions[index]
+    view.setUint16(position, tags.length, littleEndian)
+    tags.forEach((item, i) => {
+      const entry = position + 2 + i * 12
+      const text = typeof item.value === 'string' ? encoder.encode(item.value + '\0') : null
+      const values = typeof item.value === 'string' ? [] : item.value
+      const count = text ? text.length : item.type === 5 ? values.length / 2 : values.length
+      const size = count * TYPE_SIZES[item.type]
+
+      view.setUint16(entry, item.tag, littleEndian)
+      view.setUint16(entry + 2, item.type, littleEndian)
+      view.setUint32(entry + 4, count, littleEndian)
+      let target = entry + 8
+      if (size > 4) {
+        view.setUint32(entry + 8, data, littleEndian)
+        target = data
+        data += size
+      }
+
+      if (text) {
+        bytes.set(text, target)
+      } else {
+        values.forEach((value, j) => {
+          if (item.type === 3) view.setUint16(target + j * 2, value, littleEndian)
+          else view.setUint32(target + j * 4, value, littleEndian)
+        })
+      }
+    })
+    view.setUint32(position + 2 + tags.length * 12, 0, littleEndian)
+  })
+
+  return bytes.slice(0, data)
+}
+
+function segment(marker: number, ...parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((total, part) => total + part.length, 0)
+  return concat([new Uint8Array([0xff, marker, (length + 2) >> 8, (length + 2) & 0xff]), ...parts])
+}
+
+// SOI, the given segments, then an empty scan
+function jpeg(...segments: Uint8Array[]): ArrayBuffer {
+  return concat([new Uint8Array([0xff, 0xd8]), ...segments, new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9])]).buffer
+}
+
+function exifSegment(tiff: Uint8Array): Uint8Array {
+  return segment(0xe1, encoder.encode('Exif\0\0'), tiff)
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+const camera = buildTiff(
+  [
+    { tag: 0x010f, type: 2, value: 'Canon' },
+    { tag: 0x0110, type: 2, value: 'EOS R5' },
+    { tag: 0x0112, type: 3, value: [6] },
+    { tag: 0x013b, type: 2, value: 'Jane Doe' }
+  ],
+  [
+    { tag: 0x829a, type: 5, value: [1, 250] },
+    { tag: 0x829d, type: 5, value: [28, 10] },
+    { tag: 0x8827, type: 3, value: [200] },
+    { tag: 0x9003, type: 2, value: '2024:05:01 12:30:00' },
+    { tag: 0x920a, type: 5, value: [50, 1] }
+  ],
+  [
+    { tag: 1, type: 2, value: 'N' },
+    { tag: 2, type: 5, value: [52, 1, 30, 1, 0, 1] },
+    { tag: 3, type: 2, value: 'W' },
+    { tag: 4, type: 5, value: [13, 1, 15, 1, 0, 1] }
+  ]
+)
+
+describe('MetadataReader', () => {
+  const reader = new MetadataReader()
+
+  describe('read', () => {
+    it('reads camera, capture and GPS details from JPEG EXIF', () => {
+      const metadata = reader.read(jpeg(exifSegment(camera)))
+
+      expect(metadata).toMatchObject({
+        make: 'Canon',
+        model: 'EOS R5',
+        artist: 'Jane Doe',
+        orientation: 6,
+        dateTaken: '2024-05-01 12:30:00',
+        exposure: '1/250s · f/2.8 · ISO 200 · 50mm',
+        hasExif: true,
+        hasXmp: false
+      })
+      expect(metadata.gps!.latitude).toBeCloseTo(52.5)
+      expect(metadata.gps!.longitude).toBeCloseTo(-13.25)
+    })
+
+    it('reads big-endian EXIF', () => {
+      const tiff = buildTiff([{ tag: 0x010f, type: 2, value: 'Nikon' }, { tag: 0x0112, type: 3, value: [8] }], [], [], false)
+      expect(reader.read(jpeg(exifSegment(tiff)))).toMatchObject({ make: 'Nikon', orientation: 8 })
+    })
+
+    it('fills gaps from XMP without overriding EXIF', () => {
+      const xmp = '<x:xmpmeta><rdf:Description tiff:Make="Sony" xmp:CreatorTool="Editor">' +
+        '<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">Jane &amp; Co</rdf:li></rdf:Alt></dc:rights>' +
+        '</rdf:Description></x:xmpmeta>'
+      const tiff = buildTiff([{ tag: 0x010f, type: 2, value: 'Canon' }])
+      const metadata = reader.read(jpeg(exifSegment(tiff), segment(0xe1, encoder.encode('http://ns.adobe.com/xap/1.0/\0'), encoder.encode(xmp))))
+
+      expect(metadata.make).toBe('Canon')
+      expect(metadata.software).toBe('Editor')
+      expect(metadata.copyright).toBe('Jane & Co')
+      expect(metadata.hasXmp).toBe(true)
+    })
+
+    it('reads EXIF from a WebP chunk, with or without the JPEG prefix', () => {
+      const tiff = buildTiff([{ tag: 0x0110, type: 2, value: 'Pixel 8' }])
+      const webp = (chunk: Uint8Array) => {
+        const header = new Uint8Array(20)
+        const view = new DataView(header.buffer)
+        header.set(encoder.encode('RIFF'))
+        view.setUint32(4, 12 + chunk.length + (chunk.length % 2), true)
+        header.set(encoder.encode('WEBPEXIF'), 8)
+        view.setUint32(16, chunk.length, true)
+        return concat([header, chunk, new Uint8Array(chunk.length % 2)]).buffer
+      }
+
+      expect(reader.read(webp(tiff)).model).toBe('Pixel 8')
+      expect(reader.read(webp(concat([encoder.encode('Exif\0\0'), tiff]))).model).toBe('Pixel 8')
+    })
+
+    it('returns the defaults for files without metadata or with broken blocks', () => {
+      const empty = { orientation: 1, hasExif: false, hasXmp: false }
+      expect(reader.read(new ArrayBuffer(4))).toEqual(empty)
+      expect(reader.read(new Uint8Array(64).fill(0x42).buffer)).toEqual(empty)
+      expect(reader.read(jpeg(segment(0xe0, encoder.encode('JFIF\0'), new Uint8Array(9))))).toEqual(empty)
+
+      // IFD0 offset points past the end of the block
+      const broken = camera.slice(0, 40)
+      new DataView(broken.buffer).setUint32(4, 1000, true)
+      expect(reader.read(jpeg(exifSegment(broken)))).toEqual({ orientation: 1, hasExif: true, hasXmp: false })
+    })
+  })
+
+  describe('readRaw', () => {
+    it('returns the TIFF block without the Exif prefix', () => {
+      const raw = reader.readRaw(jpeg(exifSegment(camera)))
+      expect(raw.exif).toEqual(camera)
+      expect(raw.xmp).toBeUndefined()
+      expect(raw.icc).toBeUndefined()
+    })
+  })
+
+  describe('resetOrientation', () => {
+    it('sets the orientation to 1 in a copy', () => {
+      const buffer = jpeg(exifSegment(camera))
+      const reset = reader.resetOrientation(buffer)!
+
+      expect(reader.read(reset).orientation).toBe(1)
+      expect(reader.read(reset).make).toBe('Canon')
+      expect(reader.read(buffer).orientation).toBe(6)
+    })
+
+    it('returns null when there is no orientation tag', () => {
+      const tiff = buildTiff([{ tag: 0x010f, type: 2, value: 'Canon' }])
+      expect(reader.resetOrientation(jpeg(exifSegment(tiff)))).toBeNull()
+      expect(reader.resetOrientation(jpeg())).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,455 @@
+export interface GpsPosition {
+  latitude: number
+  longitude: number
+  altitude?: number
+}
+
+export interface ImageMetadata {
+  make?: string
+  model?: string
+  lens?: string
+  software?: string
+  artist?: string
+  copyright?: string
+  dateTaken?: string
+  exposure?: string
+  gps?: GpsPosition
+  iccProfile?: string
+  // EXIF orientation 1-8; 1 means the pixels are stored upright
+  orientation: number
+  hasExif: boolean
+  hasXmp: boolean
+}
+
+// Metadata blocks as stored in the file, for re-embedding on export
+export interface RawMetadata {
+  // TIFF-structured EXIF block without the JPEG 'Exif' prefix
+  exif?: Uint8Array
+  xmp?: string
+  icc?: Uint8Array
+}
+
+interface IfdEntry {
+  type: number
+  count: number
+  // Offset of the value bytes within the TIFF block (inline values live in the entry itself)
+  valueOffset: number
+}
+
+interface MetadataSegments {
+  // TIFF-structured EXIF block as a byte range of the file
+  exif?: { offset: number; length: number }
+  xmp?: string
+  icc?: Uint8Array
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+// Byte order mark, magic number and IFD0 offset
+const TIFF_HEADER_SIZE = 8
+
+// Reads EXIF, XMP and ICC metadata from JPEG, TIFF and WebP files
+export class MetadataReader {
+  private readonly decoder = new TextDecoder()
+
+  read(buffer: ArrayBuffer): ImageMetadata {
+    const segments = this.findSegments(buffer)
+    const metadata: ImageMetadata = { orientation: 1, hasExif: !!segments.exif, hasXmp: !!segments.xmp }
+
+    if (segments.exif) {
+      this.readExif(new DataView(buffer, segments.exif.offset, segments.exif.length), metadata)
+    }
+    // XMP only fills gaps; EXIF is what browsers and cameras treat as authoritative
+    if (segments.xmp) {
+      this.readXmp(segments.xmp, metadata)
+    }
+    if (segments.icc) {
+      metadata.iccProfile = this.readIccDescription(segments.icc)
+    }
+
+    return metadata
+  }
+
+  readRaw(buffer: ArrayBuffer): RawMetadata {
+    const segments = this.findSegments(buffer)
+    const raw: RawMetadata = { xmp: segments.xmp, icc: segments.icc?.slice() }
+
+    // In a TIFF file the EXIF structure is the whole image, pixels included, so it can't be carried over
+    if (segments.exif && this.isLittleEndian(new DataView(buffer)) === null) {
+      raw.exif = new Uint8Array(buffer.slice(segments.exif.offset, segments.exif.offset + segments.exif.length))
+    }
+    return raw
+  }
+
+  // Returns a copy with the EXIF orientation set to 1, so the browser decodes the stored pixels as-is
+  resetOrientation(buffer: ArrayBuffer): ArrayBuffer | null {
+    const { exif } = this.findSegments(buffer)
+    if (!exif) return null
+
+    const tiff = new DataView(buffer, exif.offset, exif.length)
+    const littleEndian = this.isLittleEndian(tiff)
+    if (littleEndian === null) return null
+
+    const entry = this.readIfd(tiff, tiff.getUint32(4, littleEndian), littleEndian).get(0x0112)
+    if (!entry || entry.type !== 3) return null
+
+    const copy = buffer.slice(0)
+    new DataView(copy, exif.offset).setUint16(entry.valueOffset, 1, littleEndian)
+    return copy
+  }
+
+  private findSegments(buffer: ArrayBuffer): MetadataSegments {
+    const view = new DataView(buffer)
+    if (view.byteLength < 12) return {}
+
+    if (view.getUint16(0) === 0xffd8) {
+      return this.findJpegSegments(view)
+    }
+    if (this.isLittleEndian(view) !== null) {
+      return this.findTiffSegments(view)
+    }
+    if (this.ascii(view, 0, 4) === 'RIFF' && this.ascii(view, 8, 4) === 'WEBP') {
+      return this.findWebpSegments(view)
+    }
+    return {}
+  }
+
+  private findJpegSegments(view: DataView): MetadataSegments {
+    const segments: MetadataSegments = {}
+    const iccChunks: Uint8Array[] = []
+    let offset = 2
+
+    while (offset + 4 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xff) break
+
+      const marker = view.getUint8(offset + 1)
+      // Fill bytes and standalone markers carry no length
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        offset += 2
+        continue
+      }
+      // Metadata always precedes the image data
+      if (marker === 0xda || marker === 0xd9) break
+
+      const length = view.getUint16(offset + 2)
+      // The length counts its own two bytes, so anything shorter means the file is corrupt
+      if (length < 2) break
+      const start = offset + 4
+      const size = Math.min(length - 2, view.byteLength - start)
+
+      if (marker === 0xe1 && size >= 6 + TIFF_HEADER_SIZE && this.ascii(view, start, 6) === 'Exif\0\0') {
+        segments.exif = { offset: view.byteOffset + start + 6, length: size - 6 }
+      } else if (marker === 0xe1 && size >= XMP_NAMESPACE.length && this.ascii(view, start, XMP_NAMESPACE.length) === XMP_NAMESPACE) {
+        segments.xmp = this.decoder.decode(this.bytes(view, start + XMP_NAMESPACE.length, size - XMP_NAMESPACE.length))
+      } else if (marker === 0xe2 && size >= 14 && this.ascii(view, start, 12) === 'ICC_PROFILE\0') {
+        // Large profiles are split across APP2 segments numbered from 1
+        iccChunks[view.getUint8(start + 12) - 1] = this.bytes(view, start + 14, size - 14)
+      }
+
+      offset += 2 + length
+    }
+
+    if (iccChunks.length > 0) {
+      segments.icc = this.concat(iccChunks.filter(Boolean))
+    }
+    return segments
+  }
+
+  private findTiffSegments(view: DataView): MetadataSegments {
+    const segments: MetadataSegments = { exif: { offset: view.byteOffset, length: view.byteLength } }
+    const littleEndian = this.isLittleEndian(view)!
+    const ifd0 = this.readIfd(view, view.getUint32(4, littleEndian), littleEndian)
+
+    const xmp = ifd0.get(700)
+    if (xmp) {
+      segments.xmp = this.decoder.decode(this.bytes(view, xmp.valueOffset, xmp.count))
+    }
+    const icc = ifd0.get(34675)
+    if (icc) {
+      segments.icc = this.bytes(view, icc.valueOffset, icc.count)
+    }
+    return segments
+  }
+
+  private findWebpSegments(view: DataView): MetadataSegments {
+    const segments: MetadataSegments = {}
+    let offset = 12
+
+    while (offset + 8 <= view.byteLength) {
+      const type = this.ascii(view, offset, 4)
+      const size = Math.min(view.getUint32(offset + 4, true), view.byteLength - offset - 8)
+      const start = offset + 8
+
+      if (type === 'EXIF') {
+        // Some encoders keep the JPEG-style prefix inside the chunk
+        const skip = this.ascii(view, start, 6) === 'Exif\0\0' ? 6 : 0
+        if (size - skip >= TIFF_HEADER_SIZE) {
+          segments.exif = { offset: view.byteOffset + start + skip, length: size - skip }
+        }
+      } else if (type === 'XMP ') {
+        segments.xmp = this.decoder.decode(this.bytes(view, start, size))
+      } else if (type === 'ICCP') {
+        segments.icc = this.bytes(view, start, size)
+      }
+
+      // Chunks are padded to an even length
+      offset = start + size + (size % 2)
+    }
+    return segments
+  }
+
+  private readExif(tiff: DataView, metadata: ImageMetadata): void {
+    const littleEndian = this.isLittleEndian(tiff)
+    if (littleEndian === null) return
+
+    const ifd0 = this.readIfd(tiff, tiff.getUint32(4, littleEndian), littleEndian)
+    const exifPointer = ifd0.get(0x8769)
+    const gpsPointer = ifd0.get(0x8825)
+    const exifIfd = exifPointer
+      ? this.readIfd(tiff, this.getNumber(tiff, exifPointer, littleEndian), littleEndian)
+      : new Map<number, IfdEntry>()
+
+    const text = (ifd: Map<number, IfdEntry>, tag: number) => {
+      const entry = ifd.get(tag)
+      return entry ? this.getString(tiff, entry) : undefined
+    }
+    const number = (ifd: Map<number, IfdEntry>, tag: number) => {
+      const entry = ifd.get(tag)
+      return entry ? this.getNumber(tiff, entry, littleEndian) : undefined
+    }
+
+    metadata.make = text(ifd0, 0x010f)
+    metadata.model = text(ifd0, 0x0110)
+    metadata.software = text(ifd0, 0x0131)
+    metadata.artist = text(ifd0, 0x013b)
+    metadata.copyright = text(ifd0, 0x8298)
+    metadata.lens = text(exifIfd, 0xa434)
+
+    const orientation = number(ifd0, 0x0112)
+    if (orientation && orientation >= 1 && orientation <= 8) {
+      metadata.orientation = orientation
+    }
+
+    const date = text(exifIfd, 0x9003) || text(ifd0, 0x0132)
+    if (date) {
+      metadata.dateTaken = this.formatExifDate(date)
+    }
+
+    metadata.exposure = this.formatExposure(
+      number(exifIfd, 0x829a),
+      number(exifIfd, 0x829d),
+      number(exifIfd, 0x8827),
+      number(exifIfd, 0x920a)
+    )
+
+    if (gpsPointer) {
+      const gps = this.readIfd(tiff, this.getNumber(tiff, gpsPointer, littleEndian), littleEndian)
+      metadata.gps = this.readGps(tiff, gps, littleEndian)
+    }
+  }
+
+  private readGps(tiff: DataView, gps: Map<number, IfdEntry>, littleEndian: boolean): GpsPosition | undefined {
+    const latitude = gps.get(2)
+    const longitude = gps.get(4)
+    if (!latitude || !longitude || latitude.count < 3 || longitude.count < 3) return undefined
+
+    const toDegrees = (entry: IfdEntry) =>
+      this.getNumber(tiff, entry, littleEndian, 0) +
+      this.getNumber(tiff, entry, littleEndian, 1) / 60 +
+      this.getNumber(tiff, entry, littleEndian, 2) / 3600
+    const reference = (tag: number) => {
+      const entry = gps.get(tag)
+      return entry ? this.getString(tiff, entry) : ''
+    }
+
+    const position: GpsPosition = {
+      latitude: toDegrees(latitude) * (reference(1) === 'S' ? -1 : 1),
+      longitude: toDegrees(longitude) * (reference(3) === 'W' ? -1 : 1)
+    }
+    if (!isFinite(position.latitude) || !isFinite(position.longitude)) return undefined
+
+    const altitude = gps.get(6)
+    if (altitude) {
+      const belowSeaLevel = gps.get(5) && tiff.getUint8(gps.get(5)!.valueOffset) === 1
+      position.altitude = this.getNumber(tiff, altitude, littleEndian) * (belowSeaLevel ? -1 : 1)
+    }
+    return position
+  }
+
+  private readXmp(xmp: string, metadata: ImageMetadata): void {
+    metadata.make ??= this.getXmpValue(xmp, 'tiff:Make')
+    metadata.model ??= this.getXmpValue(xmp, 'tiff:Model')
+    metadata.lens ??= this.getXmpValue(xmp, 'exifEX:LensModel') || this.getXmpValue(xmp, 'aux:Lens')
+    metadata.software ??= this.getXmpValue(xmp, 'xmp:CreatorTool')
+    metadata.artist ??= this.getXmpValue(xmp, 'dc:creator')
+    metadata.copyright ??= this.getXmpValue(xmp, 'dc:rights')
+
+    const date = this.getXmpValue(xmp, 'exif:DateTimeOriginal') || this.getXmpValue(xmp, 'xmp:CreateDate')
+    if (!metadata.dateTaken && date) {
+      metadata.dateTaken = date.replace('T', ' ').replace(/(\.\d+)?([+-]\d{2}:\d{2}|Z)?$/, '')
+    }
+
+    const orientation = parseInt(this.getXmpValue(xmp, 'tiff:Orientation') || '')
+    if (metadata.orientation === 1 && orientation >= 2 && orientation <= 8) {
+      metadata.orientation = orientation
+    }
+  }
+
+  // Handles both attribute (tiff:Make="...") and element forms, including rdf:Alt/Seq lists
+  private getXmpValue(xmp: string, name: string): string | undefined {
+    const attribute = new RegExp(`${name}="([^"]*)"`).exec(xmp)
+    let value = attribute?.[1]
+
+    if (value === undefined) {
+      const element = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xmp)
+      if (!element) return undefined
+      const item = /<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/.exec(element[1])
+      value = item ? item[1] : element[1]
+    }
+
+    const decoded = value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim()
+    return decoded || undefined
+  }
+
+  // The profile name lives in the 'desc' tag: ASCII in ICC v2, UTF-16 'mluc' records in v4
+  private readIccDescription(icc: Uint8Array): string | undefined {
+    if (icc.length < 132) return undefined
+
+    const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength)
+    const tagCount = view.getUint32(128)
+
+    for (let i = 0; i < tagCount && 132 + i * 12 + 12 <= icc.length; i++) {
+      const entry = 132 + i * 12
+      if (this.ascii(view, entry, 4) !== 'desc') continue
+
+      // Tag data must lie inside the profile; a stray offset means it is truncated or corrupt
+      const offset = view.getUint32(entry + 4)
+      if (offset + 12 > icc.length) return undefined
+      const type = this.ascii(view, offset, 4)
+
+      if (type === 'desc') {
+        const length = view.getUint32(offset + 8)
+        return this.decoder.decode(icc.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '').trim() || undefined
+      }
+      if (type === 'mluc' && offset + 28 <= icc.length && view.getUint32(offset + 8) > 0) {
+        const length = view.getUint32(offset + 20)
+        const start = offset + view.getUint32(offset + 24)
+        return new TextDecoder('utf-16be').decode(icc.subarray(start, start + length)).replace(/\0+$/, '').trim() || undefined
+      }
+      return undefined
+    }
+    return undefined
+  }
+
+  private readIfd(tiff: DataView, offset: number, littleEndian: boolean): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>()
+    if (offset < 8 || offset + 2 > tiff.byteLength) return entries
+
+    const count = tiff.getUint16(offset, littleEndian)
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12
+      if (entry + 12 > tiff.byteLength) break
+
+      const type = tiff.getUint16(entry + 2, littleEndian)
+      const valueCount = tiff.getUint32(entry + 4, littleEndian)
+      const size = (TYPE_SIZES[type] || 1) * valueCount
+      const valueOffset = size <= 4 ? entry + 8 : tiff.getUint32(entry + 8, littleEndian)
+
+      if (valueOffset + size <= tiff.byteLength) {
+        entries.set(tiff.getUint16(entry, littleEndian), { type, count: valueCount, valueOffset })
+      }
+    }
+    return entries
+  }
+
+  private getNumber(tiff: DataView, entry: IfdEntry, littleEndian: boolean, index = 0): number {
+    const offset = entry.valueOffset + index * (TYPE_SIZES[entry.type] || 1)
+    switch (entry.type) {
+      case 1:
+      case 7:
+        return tiff.getUint8(offset)
+      case 3:
+        return tiff.getUint16(offset, littleEndian)
+      case 4:
+        return tiff.getUint32(offset, littleEndian)
+      case 9:
+        return tiff.getInt32(offset, littleEndian)
+      case 5:
+        return tiff.getUint32(offset, littleEndian) / tiff.getUint32(offset + 4, littleEndian)
+      case 10:
+        return tiff.getInt32(offset, littleEndian) / tiff.getInt32(offset + 4, littleEndian)
+      default:
+        return NaN
+    }
+  }
+
+  private getString(tiff: DataView, entry: IfdEntry): string | undefined {
+    const value = this.decoder.decode(this.bytes(tiff, entry.valueOffset, entry.count))
+    return value.replace(/\0[\s\S]*$/, '').trim() || undefined
+  }
+
+  private isLittleEndian(view: DataView): boolean | null {
+    if (view.byteLength < 8) return null
+    const order = view.getUint16(0)
+    if (order === 0x4949 && view.getUint16(2, true) === 42) return true
+    if (order === 0x4d4d && view.getUint16(2, false) === 42) return false
+    return null
+  }
+
+  // EXIF dates use colons in the date part: 2024:05:01 12:30:00
+  private formatExifDate(date: string): string {
+    return date.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3')
+  }
+
+  private formatExposure(time?: number, aperture?: number, iso?: number, focalLength?: number): string | undefined {
+    const parts: string[] = []
+    if (time && isFinite(time)) {
+      parts.push(time < 1 ? `1/${Math.round(1 / time)}s` : `${parseFloat(time.toFixed(1))}s`)
+    }
+    if (aperture && isFinite(aperture)) {
+      parts.push(`f/${parseFloat(aperture.toFixed(1))}`)
+    }
+    if (iso) {
+      parts.push(`ISO ${iso}`)
+    }
+    if (focalLength && isFinite(focalLength)) {
+      parts.push(`${parseFloat(focalLength.toFixed(1))}mm`)
+    }
+    return parts.length > 0 ? parts.join(' · ') : undefined
+  }
+
+  private ascii(view: DataView, offset: number, length: number): string {
+    if (offset + length > view.byteLength) return ''
+    let text = ''
+    for (let i = 0; i < length; i++) {
+      text += String.fromCharCode(view.getUint8(offset + i))
+    }
+    return text
+  }
+
+  private bytes(view: DataView, offset: number, length: number): Uint8Array {
+    const start = Math.min(offset, view.byteLength)
+    const end = Math.min(start + Math.max(0, length), view.byteLength)
+    return new Uint8Array(view.buffer, view.byteOffset + start, end - start)
+  }
+
+  private concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+    let offset = 0
+    for (const chunk of chunks) {
+      result.set(chunk, offset)
+      offset += chunk.length
+    }
+    return result
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest'
+import { ImageMetadata, MetadataReader, RawMetadata } from './MetadataReader'
+import { MetadataWriter } from './MetadataWriter'
+
+const encoder = new TextEncoder()
+
+// Little-endian TIFF block with only an orientation tag in IFD0
+function orientationExif(orientation: number): Uint8Array {
+  const bytes = new Uint8Array(26)
+  const view = new DataView(bytes.buffer)
+  view.setUint16(0, 0x4949)
+  view.setUint16(2, 42, true)
+  view.setUint32(4, 8, true)
+  view.setUint16(8, 1, true)
+  view.setUint16(10, 0x0112, true)
+  view.setUint16(12, 3, true)
+  view.setUint32(14, 1, true)
+  view.setUint16(18, orientation, true)
+  return bytes
+}
+
+function segment(marker: number, ...parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((total, part) => total + part.length, 0)
+  return concat([new Uint8Array([0xff, marker, (length + 2) >> 8, (length + 2) & 0xff]), ...parts])
+}
+
+function jpeg(...segments: Uint8Array[]): Blob {
+  const bytes = concat([new Uint8Array([0xff, 0xd8]), ...segments, new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9])])
+  return new Blob([bytes], { type: 'image/jpeg' })
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+// Marker bytes of every segment before the scan
+function jpegMarkers(bytes: Uint8Array): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset)
+  const markers: number[] = []
+  let offset = 2
+  while (bytes[offset + 1] !== 0xda) {
+    markers.push(bytes[offset + 1])
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return markers
+}
+
+function pngChunk(type: string, data: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  new DataView(chunk.buffer).setUint32(0, data.length)
+  chunk.set(encoder.encode(type), 4)
+  chunk.set(data, 8)
+  return chunk
+}
+
+function pngChunkTypes(bytes: Uint8Array): string[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset)
+  const types: string[] = []
+  for (let offset = 8; offset + 12 <= bytes.length; offset += 12 + view.getUint32(offset)) {
+    types.push(String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)))
+  }
+  return types
+}
+
+const jfif = segment(0xe0, encoder.encode('JFIF\0'), new Uint8Array(9))
+const quantization = segment(0xdb, new Uint8Array(65))
+
+describe('MetadataWriter', () => {
+  const writer = new MetadataWriter()
+  const reader = new MetadataReader()
+
+  const camera: ImageMetadata = {
+    make: 'Canon',
+    artist: 'Jane <Doe>',
+    copyright: '© Jane',
+    gps: { latitude: 52.5, longitude: 13.25 },
+    orientation: 6,
+    hasExif: true,
+    hasXmp: false
+  }
+
+  describe('select', () => {
+    it('keeps nothing when stripping and lists what is dropped', () => {
+      const { keep, removed } = writer.select({ exif: orientationExif(6) }, camera, 'strip')
+
+      expect(keep).toEqual({})
+      expect(removed).toEqual(['GPS location', 'camera make and model', 'author', 'copyright'])
+    })
+
+    it('reports leftover blocks when no known field is dropped', () => {
+      const { removed } = writer.select({ xmp: '<x:xmpmeta/>' }, { orientation: 1, hasExif: false, hasXmp: true }, 'strip')
+      expect(removed).toEqual(['other EXIF/XMP data'])
+    })
+
+    it('rebuilds only the author and copyright in copyright mode', async () => {
+      const { keep, removed } = writer.select({ exif: orientationExif(6) }, camera, 'copyright')
+      const metadata = reader.read(await (await writer.inject(jpeg(), keep)).arrayBuffer())
+
+      expect(metadata).toMatchObject({ artist: 'Jane <Doe>', copyright: '© Jane', orientation: 1, hasXmp: true })
+      expect(metadata.make).toBeUndefined()
+      expect(keep.xmp).toContain('<rdf:li>Jane &lt;Doe&gt;</rdf:li>')
+      expect(removed).toEqual(['GPS location', 'camera make and model'])
+    })
+
+    it('keeps nothing in copyright mode when there are no credits', () => {
+      const { keep } = writer.select({ exif: orientationExif(6) }, { ...camera, artist: undefined, copyright: undefined }, 'copyright')
+      expect(keep).toEqual({})
+    })
+
+    it('resets the orientation when preserving', () => {
+      const raw: RawMetadata = {
+        exif: orientationExif(6),
+        xmp: '<rdf:Description tiff:Orientation="6"/>'
+      }
+      const { keep, removed } = writer.select(raw, camera, 'preserve')
+
+      expect(new DataView(keep.exif!.buffer).getUint16(18, true)).toBe(1)
+      expect(new DataView(raw.exif!.buffer).getUint16(18, true)).toBe(6)
+      expect(keep.xmp).toBe('<rdf:Description tiff:Orientation="1"/>')
+      expect(removed).toEqual([])
+    })
+
+    it('keeps only sRGB color profiles when preserving', () => {
+      const icc = new Uint8Array([1, 2, 3])
+
+      expect(writer.select({ icc }, { ...camera, iccProfile: 'sRGB IEC61966-2.1' }, 'preserve').keep.icc).toBe(icc)
+
+      const { keep, removed } = writer.select({ icc }, { ...camera, iccProfile: 'Display P3' }, 'preserve')
+      expect(keep.icc).toBeUndefined()
+      expect(removed).toEqual(['color profile (Display P3, converted to sRGB)'])
+    })
+  })
+
+  describe('inject', () => {
+    it('replaces JPEG metadata segments after the JFIF header', async () => {
+      const old = segment(0xe1, encoder.encode('Exif\0\0'), orientationExif(8))
+      const blob = await writer.inject(jpeg(jfif, old, quantization), { exif: orientationExif(3), xmp: '<x:xmpmeta/>' })
+      const bytes = new Uint8Array(await blob.arrayBuffer())
+
+      expect(blob.type).toBe('image/jpeg')
+      expect(jpegMarkers(bytes)).toEqual([0xe0, 0xe1, 0xe1, 0xdb])
+      expect(reader.read(bytes.buffer)).toMatchObject({ orientation: 3, hasXmp: true })
+    })
+
+    it('splits large ICC profiles across APP2 segments', async () => {
+      const icc = new Uint8Array(100000).map((_, i) => i % 251)
+      const blob = await writer.inject(jpeg(jfif), { icc })
+      const bytes = new Uint8Array(await blob.arrayBuffer())
+
+      expect(jpegMarkers(bytes)).toEqual([0xe0, 0xe2, 0xe2])
+      expect(reader.readRaw(bytes.buffer).icc).toEqual(icc)
+    })
+
+    it('puts PNG chunks after IHDR and drops the ones they replace', async () => {
+      const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+      const png = new Blob([concat([
+        signature,
+        pngChunk('IHDR', new Uint8Array(13)),
+        pngChunk('eXIf', orientationExif(6)),
+        pngChunk('IDAT', new Uint8Array(4)),
+        pngChunk('IEND')
+      ])], { type: 'image/png' })
+
+      const blob = await writer.inject(png, { exif: orientationExif(1), xmp: '<x:xmpmeta/>' })
+      const bytes = new Uint8Array(await blob.arrayBuffer())
+
+      expect(pngChunkTypes(bytes)).toEqual(['IHDR', 'eXIf', 'iTXt', 'IDAT', 'IEND'])
+      expect(new TextDecoder().decode(bytes)).toContain('XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>')
+    })
+
+    it('converts simple WebP files to the extended layout', async () => {
+      // Lossless bitstream header: 0x2f signature, then 14-bit width-1 and height-1 and the alpha bit
+      const vp8l = new Uint8Array(6)
+      vp8l[0] = 0x2f
+      new DataView(vp8l.buffer).setUint32(1, (640 - 1) | ((480 - 1) << 14) | (1 << 28), true)
+      const body = concat([encoder.encode('WEBPVP8L'), new Uint8Array([6, 0, 0, 0]), vp8l])
+      const riff = concat([encoder.encode('RIFF'), new Uint8Array([body.length, 0, 0, 0]), body])
+
+      const blob = await writer.inject(new Blob([riff], { type: 'image/webp' }), { exif: orientationExif(1) })
+      const view = new DataView(await blob.arrayBuffer())
+      const chunks: string[] = []
+      for (let offset = 12; offset + 8 <= view.byteLength; offset += 8 + view.getUint32(offset + 4, true)) {
+        chunks.push(String.fromCharCode(...new Uint8Array(view.buffer, offset, 4)))
+      }
+
+      expect(chunks).toEqual(['VP8X', 'VP8L', 'EXIF'])
+      expect(view.getUint32(4, true)).toBe(view.byteLength - 8)
+      // Alpha and EXIF flags, then the canvas size minus one
+      expect(view.getUint8(20)).toBe(0x18)
+      expect(view.getUint16(24, true)).toBe(639)
+      expect(view.getUint16(27, true)).toBe(479)
+      expect(reader.read(view.buffer).hasExif).toBe(true)
+    })
+
+    it('returns the blob unchanged when there is nothing to add or the format is unsupported', async () => {
+      const blob = jpeg(jfif)
+      expect(await writer.inject(blob, {})).toBe(blob)
+
+      const bmp = new Blob([new Uint8Array([0x42, 0x4d])], { type: 'image/bmp' })
+      expect(await writer.inject(bmp, { exif: orientationExif(1) })).toBe(bmp)
+      expect(writer.supportsFormat('image/bmp')).toBe(false)
+      expect(writer.supportsFormat('image/webp')).toBe(true)
+    })
+  })
+})
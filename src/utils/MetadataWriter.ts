@@ -0,0 +1,345 @@
+import { crc32 } from './crc32'
+import { ImageMetadata, MetadataReader, RawMetadata } from './MetadataReader'
+
+export type MetadataMode = 'strip' | 'copyright' | 'preserve'
+
+export interface MetadataSelection {
+  keep: RawMetadata
+  // Human-readable list of what the export leaves out, e.g. 'GPS location'
+  removed: string[]
+}
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+const MAX_SEGMENT_SIZE = 65533
+const ICC_CHUNK_SIZE = MAX_SEGMENT_SIZE - 14
+
+// Re-embeds EXIF, XMP and ICC blocks into canvas-encoded JPEG, PNG and WebP files
+export class MetadataWriter {
+  private readonly metadataReader = new MetadataReader()
+  private readonly encoder = new TextEncoder()
+  private readonly supportedTypes = ['image/jpeg', 'image/png', 'image/webp']
+
+  supportsFormat(mimeType: string): boolean {
+    return this.supportedTypes.includes(mimeType)
+  }
+
+  select(raw: RawMetadata, metadata: ImageMetadata, mode: MetadataMode): MetadataSelection {
+    const keep: RawMetadata = {}
+
+    if (mode === 'preserve') {
+      // Pixels are already upright, so the orientation tag must not rotate them again
+      keep.exif = raw.exif ? this.resetOrientation(raw.exif) : undefined
+      keep.xmp = raw.xmp?.replace(/tiff:Orientation="\d"/, 'tiff:Orientation="1"')
+        .replace(/<tiff:Orientation>\d<\/tiff:Orientation>/, '<tiff:Orientation>1</tiff:Orientation>')
+      // Canvas rendering converts pixels to sRGB, so other profiles would mislabel the colors
+      keep.icc = raw.icc && this.isSrgbProfile(metadata.iccProfile) ? raw.icc : undefined
+    } else if (mode === 'copyright' && (metadata.artist || metadata.copyright)) {
+      keep.exif = this.buildCopyrightExif(metadata.artist, metadata.copyright)
+      keep.xmp = this.buildCopyrightXmp(metadata.artist, metadata.copyright)
+    }
+
+    return { keep, removed: this.describeRemoved(metadata, raw, keep, mode) }
+  }
+
+  async inject(blob: Blob, metadata: RawMetadata): Promise<Blob> {
+    if (!metadata.exif && !metadata.xmp && !metadata.icc) return blob
+
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    switch (blob.type) {
+      case 'image/jpeg':
+        return new Blob([this.injectJpeg(bytes, metadata)], { type: blob.type })
+      case 'image/png':
+        return new Blob([await this.injectPng(bytes, metadata)], { type: blob.type })
+      case 'image/webp':
+        return new Blob([this.injectWebp(bytes, metadata)], { type: blob.type })
+      default:
+        return blob
+    }
+  }
+
+  private describeRemoved(metadata: ImageMetadata, raw: RawMetadata, keep: RawMetadata, mode: MetadataMode): string[] {
+    if (mode === 'preserve') {
+      return raw.icc && !keep.icc ? [`color profile (${metadata.iccProfile || 'unknown'}, converted to sRGB)`] : []
+    }
+
+    const keepsCredits = mode === 'copyright'
+    const items: Array<[removed: boolean, label: string]> = [
+      [!!metadata.gps, 'GPS location'],
+      [!!(metadata.make || metadata.model), 'camera make and model'],
+      [!!metadata.lens, 'lens'],
+      [!!metadata.dateTaken, 'capture date'],
+      [!!metadata.exposure, 'exposure settings'],
+      [!!metadata.software, 'editing software'],
+      [!keepsCredits && !!metadata.artist, 'author'],
+      [!keepsCredits && !!metadata.copyright, 'copyright'],
+      [!!raw.icc, metadata.iccProfile ? `color profile (${metadata.iccProfile})` : 'color profile']
+    ]
+
+    const removed = items.filter(([isRemoved]) => isRemoved).map(([, label]) => label)
+    // Anything left over (maker notes, thumbnails, custom XMP) is reported as a whole
+    if (removed.length === 0 && (raw.exif || raw.xmp)) {
+      removed.push('other EXIF/XMP data')
+    }
+    return removed
+  }
+
+  private resetOrientation(exif: Uint8Array): Uint8Array {
+    const buffer = exif.buffer.slice(exif.byteOffset, exif.byteOffset + exif.byteLength) as ArrayBuffer
+    const reset = this.metadataReader.resetOrientation(buffer)
+    return new Uint8Array(reset ?? buffer)
+  }
+
+  private isSrgbProfile(name?: string): boolean {
+    return !!name && /srgb/i.test(name)
+  }
+
+  // Little-endian TIFF block with only Artist and Copyright in IFD0
+  private buildCopyrightExif(artist?: string, copyright?: string): Uint8Array {
+    const tags = [
+      { tag: 0x013b, value: artist },
+      { tag: 0x8298, value: copyright }
+    ].filter((entry): entry is { tag: number; value: string } => !!entry.value)
+      .map(entry => ({ tag: entry.tag, bytes: this.encoder.encode(entry.value + '\0') }))
+
+    const ifdSize = 2 + tags.length * 12 + 4
+    const dataSize = tags.reduce((total, entry) => total + (entry.bytes.length > 4 ? entry.bytes.length : 0), 0)
+    const buffer = new ArrayBuffer(8 + ifdSize + dataSize)
+    const view = new DataView(buffer)
+    const bytes = new Uint8Array(buffer)
+
+    view.setUint16(0, 0x4949)
+    view.setUint16(2, 42, true)
+    view.setUint32(4, 8, true)
+    view.setUint16(8, tags.length, true)
+
+    let dataOffset = 8 + ifdSize
+    tags.forEach((entry, index) => {
+      const position = 10 + index * 12
+      view.setUint16(position, entry.tag, true)
+      view.setUint16(position + 2, 2, true) // ASCII
+      view.setUint32(position + 4, entry.bytes.length, true)
+      if (entry.bytes.length <= 4) {
+        bytes.set(entry.bytes, position + 8)
+      } else {
+        view.setUint32(position + 8, dataOffset, true)
+        bytes.set(entry.bytes, dataOffset)
+        dataOffset += entry.bytes.length
+      }
+    })
+
+    return bytes
+  }
+
+  private buildCopyrightXmp(artist?: string, copyright?: string): string {
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    const creator = artist ? `<dc:creator><rdf:Seq><rdf:li>${escape(artist)}</rdf:li></rdf:Seq></dc:creator>` : ''
+    const rights = copyright
+      ? `<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escape(copyright)}</rdf:li></rdf:Alt></dc:rights>`
+      : ''
+
+    return '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+      `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">${creator}${rights}</rdf:Description>` +
+      '</rdf:RDF></x:xmpmeta><?xpacket end="w"?>'
+  }
+
+  // Metadata goes after SOI (and JFIF APP0, which must come first); existing APP1/APP2 segments are replaced
+  private injectJpeg(bytes: Uint8Array, metadata: RawMetadata): Uint8Array<ArrayBuffer> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const head: Uint8Array[] = [bytes.subarray(0, 2)]
+    const rest: Uint8Array[] = []
+    let offset = 2
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]
+      if (marker === 0xda) break
+
+      const end = offset + 2 + view.getUint16(offset + 2)
+      if (marker === 0xe0 && rest.length === 0) {
+        head.push(bytes.subarray(offset, end))
+      } else if (marker !== 0xe1 && marker !== 0xe2) {
+        rest.push(bytes.subarray(offset, end))
+      }
+      offset = end
+    }
+
+    const segments: Uint8Array[] = []
+    if (metadata.exif && metadata.exif.length + 6 <= MAX_SEGMENT_SIZE) {
+      segments.push(this.jpegSegment(0xe1, this.encoder.encode('Exif\0\0'), metadata.exif))
+    }
+    if (metadata.xmp) {
+      const xmp = this.encoder.encode(metadata.xmp)
+      if (xmp.length + XMP_NAMESPACE.length <= MAX_SEGMENT_SIZE) {
+        segments.push(this.jpegSegment(0xe1, this.encoder.encode(XMP_NAMESPACE), xmp))
+      }
+    }
+    if (metadata.icc) {
+      const count = Math.ceil(metadata.icc.length / ICC_CHUNK_SIZE)
+      for (let i = 0; i < count; i++) {
+        const header = new Uint8Array(14)
+        header.set(this.encoder.encode('ICC_PROFILE\0'))
+        header[12] = i + 1
+        header[13] = count
+        segments.push(this.jpegSegment(0xe2, header, metadata.icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE)))
+      }
+    }
+
+    return this.concat([...head, ...segments, ...rest, bytes.subarray(offset)])
+  }
+
+  private jpegSegment(marker: number, header: Uint8Array, data: Uint8Array): Uint8Array {
+    const segment = new Uint8Array(4 + header.length + data.length)
+    const view = new DataView(segment.buffer)
+    view.setUint8(0, 0xff)
+    view.setUint8(1, marker)
+    view.setUint16(2, 2 + header.length + data.length)
+    segment.set(header, 4)
+    segment.set(data, 4 + header.length)
+    return segment
+  }
+
+  // Chunks go right after IHDR; iCCP replaces any sRGB/iCCP chunk since PNG allows only one
+  private async injectPng(bytes: Uint8Array, metadata: RawMetadata): Promise<Uint8Array<ArrayBuffer>> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const ihdrEnd = 8 + 12 + view.getUint32(8)
+    const chunks: Uint8Array[] = []
+
+    if (metadata.icc) {
+      const compressed = await this.deflate(metadata.icc)
+      chunks.push(this.pngChunk('iCCP', this.concat([this.encoder.encode('ICC Profile\0'), new Uint8Array([0]), compressed])))
+    }
+    if (metadata.exif) {
+      chunks.push(this.pngChunk('eXIf', metadata.exif))
+    }
+    if (metadata.xmp) {
+      // iTXt: keyword, compression flag and method, empty language tag and translated keyword
+      chunks.push(this.pngChunk('iTXt', this.concat([
+        this.encoder.encode('XML:com.adobe.xmp\0'),
+        new Uint8Array([0, 0, 0, 0]),
+        this.encoder.encode(metadata.xmp)
+      ])))
+    }
+
+    const replaced = new Set(['eXIf', ...(metadata.icc ? ['iCCP', 'sRGB'] : [])])
+    const rest: Uint8Array[] = []
+    let offset = ihdrEnd
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset)
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+      const end = offset + 12 + length
+      const isXmp = type === 'iTXt' && !!metadata.xmp && this.startsWith(bytes, offset + 8, 'XML:com.adobe.xmp\0')
+      if (!replaced.has(type) && !isXmp) {
+        rest.push(bytes.subarray(offset, end))
+      }
+      offset = end
+    }
+
+    return this.concat([bytes.subarray(0, ihdrEnd), ...chunks, ...rest])
+  }
+
+  private pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length)
+    const view = new DataView(chunk.buffer)
+    view.setUint32(0, data.length)
+    chunk.set(this.encoder.encode(type), 4)
+    chunk.set(data, 8)
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+    return chunk
+  }
+
+  // zlib stream as required by iCCP
+  private async deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('deflate'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  // Metadata needs the extended (VP8X) layout: VP8X, ICCP, image data, EXIF, XMP
+  private injectWebp(bytes: Uint8Array, metadata: RawMetadata): Uint8Array<ArrayBuffer> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const imageChunks: Uint8Array[] = []
+    let header: Uint8Array | null = null
+    let width = 0
+    let height = 0
+    let hasAlpha = false
+    let offset = 12
+
+    while (offset + 8 <= bytes.length) {
+      const type = String.fromCharCode(...bytes.subarray(offset, offset + 4))
+      const size = view.getUint32(offset + 4, true)
+      const start = offset + 8
+      const end = Math.min(bytes.length, start + size + (size % 2))
+
+      if (type === 'VP8X') {
+        header = bytes.slice(start, start + 10)
+      } else if (!['ICCP', 'EXIF', 'XMP '].includes(type)) {
+        imageChunks.push(bytes.subarray(offset, end))
+        if (type === 'VP8 ') {
+          width = view.getUint16(start + 6, true) & 0x3fff
+          height = view.getUint16(start + 8, true) & 0x3fff
+        } else if (type === 'VP8L') {
+          const bits = view.getUint32(start + 1, true)
+          width = (bits & 0x3fff) + 1
+          height = ((bits >>> 14) & 0x3fff) + 1
+          hasAlpha = ((bits >>> 28) & 1) === 1
+        } else if (type === 'ALPH') {
+          hasAlpha = true
+        }
+      }
+      offset = end
+    }
+
+    if (!header) {
+      header = new Uint8Array(10)
+      const headerView = new DataView(header.buffer)
+      headerView.setUint8(0, hasAlpha ? 0x10 : 0)
+      // Canvas size minus one, 24-bit little-endian
+      headerView.setUint16(4, (width - 1) & 0xffff, true)
+      headerView.setUint8(6, (width - 1) >>> 16)
+      headerView.setUint16(7, (height - 1) & 0xffff, true)
+      headerView.setUint8(9, (height - 1) >>> 16)
+    }
+
+    const encoded = metadata.xmp ? this.encoder.encode(metadata.xmp) : null
+    header[0] = (header[0] & ~0x2c) | (metadata.icc ? 0x20 : 0) | (metadata.exif ? 0x08 : 0) | (encoded ? 0x04 : 0)
+
+    const body = this.concat([
+      this.encoder.encode('WEBP'),
+      this.riffChunk('VP8X', header),
+      ...(metadata.icc ? [this.riffChunk('ICCP', metadata.icc)] : []),
+      ...imageChunks,
+      ...(metadata.exif ? [this.riffChunk('EXIF', metadata.exif)] : []),
+      ...(encoded ? [this.riffChunk('XMP ', encoded)] : [])
+    ])
+
+    const riff = new Uint8Array(8)
+    riff.set(this.encoder.encode('RIFF'))
+    new DataView(riff.buffer).setUint32(4, body.length, true)
+    return this.concat([riff, body])
+  }
+
+  private riffChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2))
+    chunk.set(this.encoder.encode(type))
+    new DataView(chunk.buffer).setUint32(4, data.length, true)
+    chunk.set(data, 8)
+    return chunk
+  }
+
+  private startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+    for (let i = 0; i < text.length; i++) {
+      if (bytes[offset + i] !== text.charCodeAt(i)) return false
+    }
+    return true
+  }
+
+  private concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+      result.set(part, offset)
+      offset += part.length
+    }
+    return result
+  }
+}
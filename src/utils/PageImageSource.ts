@@ -0,0 +1,73 @@
+export interface PageImage {
+  src: string
+  alt: string
+  width: number
+  height: number
+  // Small preview drawn by the content script; null when the page blocks pixel access
+  thumbnail: string | null
+}
+
+export interface PageImageData {
+  src: string
+  dataUrl: string
+  width: number
+  height: number
+  name: string
+}
+
+// Messages handled by content.js and the responses it sends back
+type ContentScriptRequest =
+  | { action: 'extractImages' }
+  | { action: 'processImageFromContext'; imageUrl: string }
+
+type ExtractImagesResponse = { images: PageImage[] } | { error: string }
+
+type ProcessImageResponse =
+  | { success: true; imageData: PageImageData }
+  | { success: false; error?: string }
+
+// Talks to content.js in the active tab to list and import the page's images
+export class PageImageSource {
+  isAvailable(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.tabs
+  }
+
+  async listImages(): Promise<PageImage[]> {
+    const response = await this.sendToActiveTab<ExtractImagesResponse>({ action: 'extractImages' })
+    if ('error' in response) {
+      throw new Error(response.error)
+    }
+    return response.images || []
+  }
+
+  async loadImage(image: PageImage): Promise<PageImageData> {
+    const response = await this.sendToActiveTab<ProcessImageResponse>({ action: 'processImageFromContext', imageUrl: image.src })
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to load image from page')
+    }
+    return response.imageData
+  }
+
+  async toFile(imageData: PageImageData): Promise<File> {
+    const blob = await (await fetch(imageData.dataUrl)).blob()
+    return new File([blob], imageData.name, { type: blob.type })
+  }
+
+  private async sendToActiveTab<T>(message: ContentScriptRequest): Promise<T> {
+    if (!this.isAvailable()) {
+      throw new Error('Page images are only available in the extension popup')
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id) {
+      throw new Error('No active tab found')
+    }
+
+    try {
+      return await chrome.tabs.sendMessage(tab.id, message)
+    } catch {
+      // No content script on browser pages such as chrome:// or the Web Store
+      throw new Error('Images cannot be read from this page')
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { ExtensionStorage } from './ExtensionStorage'
+import { DEFAULT_FILENAME_TEMPLATE } from './FilenameTemplate'
+
+export type ThemePreference = 'system' | 'light' | 'dark'
+
+// 'all' shows every toast, 'errors' only failures, 'off' nothing
+export type NotificationLevel = 'all' | 'errors' | 'off'
+
+export interface Preferences {
+  defaultFormat: string
+  defaultQuality: number
+  // data-section names of the editor sections opened when an image loads
+  autoExpandSections: string[]
+  maxUploadSizeMb: number
+  theme: ThemePreference
+  notifications: NotificationLevel
+  // Download name pattern, see FilenameTemplate; content.js reads it for context-menu exports
+  filenameTemplate: string
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  defaultFormat: 'jpeg',
+  defaultQuality: 85,
+  autoExpandSections: ['compression'],
+  maxUploadSizeMb: 10,
+  theme: 'system',
+  notifications: 'all',
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE
+}
+
+// Stored in chrome.storage.sync under one key; background.js reads the same key for
+// its notifications. The theme is mirrored to localStorage so app.ts can paint the
+// right colours before the async storage read finishes.
+export class PreferencesManager {
+  private readonly storageKey = 'preferences'
+  private readonly themeCacheKey = 'solanam-theme'
+  private readonly storage = new ExtensionStorage('sync')
+  private preferences: Preferences = { ...DEFAULT_PREFERENCES }
+
+  async load(): Promise<Preferences> {
+    let stored = (await this.storage.get<Partial<Preferences> | null>(this.storageKey)) || undefined
+
+    // The popup used to keep the theme under 'theme'; carry it over once
+    const legacyTheme = localStorage.getItem('theme')
+    if (legacyTheme) {
+      localStorage.removeItem('theme')
+      if (!stored?.theme && (legacyTheme === 'light' || legacyTheme === 'dark')) {
+        stored = { ...stored, theme: legacyTheme }
+      }
+    }
+
+    this.preferences = this.sanitize({ ...DEFAULT_PREFERENCES, ...stored })
+    this.cacheTheme()
+    return this.get()
+  }
+
+  get(): Preferences {
+    return { ...this.preferences, autoExpandSections: [...this.preferences.autoExpandSections] }
+  }
+
+  async update(changes: Partial<Preferences>): Promise<Preferences> {
+    this.preferences = this.sanitize({ ...this.preferences, ...changes })
+    this.cacheTheme()
+
+    await this.storage.set({ [this.storageKey]: this.preferences })
+    return this.get()
+  }
+
+  // Resolves 'system' against the OS setting
+  isDarkTheme(): boolean {
+    if (this.preferences.theme === 'system') {
+      return window.matchMedia('(prefers-color-scheme: dark)').matches
+    }
+    return this.preferences.theme === 'dark'
+  }
+
+  private sanitize(preferences: Preferences): Preferences {
+    const quality = Math.round(Number(preferences.defaultQuality))
+    const maxUpload = Number(preferences.maxUploadSizeMb)
+    return {
+      defaultFormat: typeof preferences.defaultFormat === 'string' ? preferences.defaultFormat : DEFAULT_PREFERENCES.defaultFormat,
+      defaultQuality: quality >= 1 && quality <= 100 ? quality : DEFAULT_PREFERENCES.defaultQuality,
+      autoExpandSections: Array.isArray(preferences.autoExpandSections)
+        ? preferences.autoExpandSections.filter(section => typeof section === 'string')
+        : [...DEFAULT_PREFERENCES.autoExpandSections],
+      maxUploadSizeMb: maxUpload >= 1 && maxUpload <= 100 ? maxUpload : DEFAULT_PREFERENCES.maxUploadSizeMb,
+      theme: ['system', 'light', 'dark'].includes(preferences.theme) ? preferences.theme : DEFAULT_PREFERENCES.theme,
+      notifications: ['all', 'errors', 'off'].includes(preferences.notifications)
+        ? preferences.notifications
+        : DEFAULT_PREFERENCES.notifications,
+      filenameTemplate: typeof preferences.filenameTemplate === 'string' && preferences.filenameTemplate.trim()
+        ? preferences.filenameTemplate.trim()
+        : DEFAULT_PREFERENCES.filenameTemplate
+    }
+  }
+
+  private cacheTheme(): void {
+    if (this.preferences.theme === 'system') {
+      localStorage.removeItem(this.themeCacheKey)
+    } else {
+      localStorage.setItem(this.themeCacheKey, this.preferences.theme)
+    }
+  }
+}
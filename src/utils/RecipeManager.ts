@@ -0,0 +1,200 @@
+import { CompressionManager } from './CompressionManager'
+import { EditStack, EditState } from './EditStack'
+import { ExtensionStorage } from './ExtensionStorage'
+import { ResizeMode } from './ResizeManager'
+import { CurvePoint, ToneManager } from './ToneManager'
+
+export interface Recipe {
+  id: string
+  name: string
+  state: EditState
+  format: string
+  quality: number
+  updatedAt: number
+}
+
+interface RecipeFile {
+  type: 'solanam-recipes'
+  version: 1
+  recipes: Omit<Recipe, 'id'>[]
+}
+
+// Saved edit + export setups. Each recipe is its own chrome.storage.sync item so the
+// per-item quota applies to one recipe rather than the whole collection.
+export class RecipeManager {
+  private readonly keyPrefix = 'recipe:'
+  private readonly storage = new ExtensionStorage('sync')
+  private readonly compressionManager = new CompressionManager()
+  private readonly toneManager = new ToneManager()
+  private readonly defaults = new EditStack().getDefaultState()
+  private readonly resizeModes: ResizeMode[] = ['none', 'exact', 'fit', 'fill', 'percent', 'longEdge']
+
+  async list(): Promise<Recipe[]> {
+    const items = await this.storage.getAll(this.keyPrefix)
+    // Synced items can come from another version or device, so they get the same checks as imports
+    return Object.entries(items)
+      .filter((entry): entry is [string, Omit<Recipe, 'id'>] => this.isRecipe(entry[1]))
+      .map(([key, recipe]) => ({
+        id: key.slice(this.keyPrefix.length),
+        name: recipe.name,
+        state: this.sanitizeState(recipe.state),
+        format: recipe.format,
+        quality: this.clampQuality(recipe.quality),
+        updatedAt: Number.isFinite(recipe.updatedAt) ? recipe.updatedAt : 0
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Saving under an existing name replaces that recipe
+  async save(recipe: Omit<Recipe, 'id' | 'updatedAt'>): Promise<Recipe> {
+    const name = recipe.name.trim()
+    if (!name) {
+      throw new Error('Recipe name is required')
+    }
+
+    const existing = (await this.list()).find(item => item.name.toLowerCase() === name.toLowerCase())
+    const saved: Recipe = {
+      ...recipe,
+      name,
+      id: existing?.id || `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      updatedAt: Date.now()
+    }
+    await this.write({ [this.keyPrefix + saved.id]: saved })
+    return saved
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.remove(this.keyPrefix + id)
+  }
+
+  async exportJson(): Promise<Blob> {
+    const file: RecipeFile = {
+      type: 'solanam-recipes',
+      version: 1,
+      recipes: (await this.list()).map(({ id: _id, ...recipe }) => recipe)
+    }
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+  }
+
+  async importJson(text: string): Promise<number> {
+    let file: RecipeFile
+    try {
+      file = JSON.parse(text)
+    } catch {
+      throw new Error('Recipe file is not valid JSON')
+    }
+
+    if (file?.type !== 'solanam-recipes' || !Array.isArray(file.recipes)) {
+      throw new Error('Not a SolanaM recipe file')
+    }
+
+    const recipes = file.recipes.filter(recipe => this.isRecipe(recipe))
+    if (recipes.length === 0) {
+      throw new Error('The file contains no recipes')
+    }
+
+    for (const recipe of recipes) {
+      await this.save({
+        name: recipe.name,
+        state: this.sanitizeState(recipe.state),
+        format: recipe.format,
+        quality: this.clampQuality(recipe.quality)
+      })
+    }
+    return recipes.length
+  }
+
+  private isRecipe(recipe: unknown): recipe is Omit<Recipe, 'id'> {
+    const candidate = recipe as Partial<Recipe> | null
+    return typeof candidate?.name === 'string' &&
+      typeof candidate.format === 'string' && this.compressionManager.isSupportedFormat(candidate.format) &&
+      Number.isFinite(candidate.quality) &&
+      typeof candidate.state === 'object' && candidate.state !== null
+  }
+
+  private clampQuality(quality: number): number {
+    return Math.min(100, Math.max(1, Math.round(quality)))
+  }
+
+  // Imported files may be hand-edited or from another version, so every field is checked
+  // against the defaults and anything of the wrong type falls back to its default.
+  // Numbers are then clamped to what the editor's own controls allow.
+  private sanitizeState(state: unknown): EditState {
+    const sanitized = this.sanitize(state, this.defaults)
+    if (![0, 90, 180, 270].includes(sanitized.transform.rotation)) {
+      sanitized.transform.rotation = 0
+    }
+    if (!this.resizeModes.includes(sanitized.resize.mode)) {
+      sanitized.resize.mode = 'none'
+    }
+    // A width or height of 0 means unset
+    const { resize } = sanitized
+    resize.width = this.clamp(resize.width, 0, 16384)
+    resize.height = this.clamp(resize.height, 0, 16384)
+    resize.percent = this.clamp(resize.percent, 1, 400)
+    resize.longEdge = this.clamp(resize.longEdge, 1, 16384)
+    if (sanitized.crop.unit !== 'percent' && sanitized.crop.unit !== 'pixels') {
+      sanitized.crop.unit = 'percent'
+    }
+    if (sanitized.crop.aspectRatio !== null && !(sanitized.crop.aspectRatio > 0)) {
+      sanitized.crop.aspectRatio = null
+    }
+    Object.values(sanitized.filters.levels).forEach(channel => {
+      channel.black = this.clamp(channel.black, 0, 254)
+      channel.white = this.clamp(channel.white, channel.black + 1, 255)
+      channel.gamma = Math.min(this.toneManager.maxGamma, Math.max(this.toneManager.minGamma, channel.gamma))
+    })
+    const { curves } = sanitized.filters
+    const defaultCurves = this.toneManager.getDefaultCurves()
+    for (const channel of Object.keys(curves) as (keyof typeof curves)[]) {
+      curves[channel] = this.sanitizeCurve(curves[channel], defaultCurves[channel])
+    }
+    return sanitized
+  }
+
+  // The lookup tables need the points inside the range and in order, one per input level
+  private sanitizeCurve(points: CurvePoint[], fallback: CurvePoint[]): CurvePoint[] {
+    const curve = points
+      .map(point => ({ x: this.clamp(point.x, 0, 255), y: this.clamp(point.y, 0, 255) }))
+      .sort((a, b) => a.x - b.x)
+    const isValid = curve.length <= this.toneManager.maxCurvePoints &&
+      curve.every((point, i) => i === 0 || point.x > curve[i - 1].x)
+    return isValid ? curve : fallback
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, Math.round(value)))
+  }
+
+  private sanitize<T>(value: unknown, fallback: T): T {
+    if (Array.isArray(fallback)) {
+      // Arrays hold curve points; fewer than two can't describe a curve
+      if (!Array.isArray(value) || value.length < 2) return fallback
+      return value.map(item => this.sanitize(item, fallback[0])) as T
+    }
+    if (fallback === null) {
+      // Only the crop's aspect ratio is nullable, and it is a number when set
+      return (Number.isFinite(value) ? value : null) as T
+    }
+    if (typeof fallback === 'object') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fallback
+      const result = {} as T
+      for (const key of Object.keys(fallback) as (keyof T)[]) {
+        result[key] = this.sanitize((value as T)[key], fallback[key])
+      }
+      return result
+    }
+    if (typeof fallback === 'number') {
+      return (Number.isFinite(value) ? value : fallback) as T
+    }
+    return (typeof value === typeof fallback ? value : fallback) as T
+  }
+
+  private async write(items: Record<string, Recipe>): Promise<void> {
+    try {
+      await this.storage.set(items)
+    } catch {
+      throw new Error('Recipe could not be synced (storage quota reached)')
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { CropSettings } from './CropManager'
+import { FilterManager, FilterOptions, FilterView } from './FilterManager'
+import { ResizeManager, ResizeOptions } from './ResizeManager'
+import { TransformManager, TransformSettings } from './TransformManager'
+import { CanvasSource, RenderCanvas, createCanvas, getContext2d, getSourceSize } from './canvas'
+
+export interface RenderOptions {
+  transform: TransformSettings
+  crop: CropSettings
+  filters: FilterOptions
+  resize: ResizeOptions
+}
+
+export type RenderSource = CanvasSource
+
+export class RenderPipeline {
+  private filterManager: FilterManager
+  private resizeManager: ResizeManager
+  private transformManager: TransformManager
+
+  constructor(filterManager: FilterManager, resizeManager: ResizeManager, transformManager: TransformManager) {
+    this.filterManager = filterManager
+    this.resizeManager = resizeManager
+    this.transformManager = transformManager
+  }
+
+  // Transform, crop, then resize, then filters so blur radii are measured in output pixels.
+  // Crop percentages refer to the transformed image, which is what the preview shows.
+  render(source: RenderSource, options: RenderOptions): RenderCanvas {
+    const transformed = this.transformManager.isIdentity(options.transform)
+      ? source
+      : this.transformManager.apply(source, options.transform)
+    const cropped = this.crop(transformed, options.crop)
+    const resized = this.resizeManager.resize(cropped, options.resize)
+    const ctx = getContext2d(resized)
+
+    const imageData = ctx.getImageData(0, 0, resized.width, resized.height)
+    this.filterManager.applyToImageData(imageData, options.filters)
+    ctx.putImageData(imageData, 0, 0)
+
+    return resized
+  }
+
+  // Reduced copy of the source for the editor preview, which is far smaller than most photos
+  createPreviewSource(source: RenderSource, maxSize = 800): RenderCanvas {
+    const canvas = this.copy(source)
+    const scale = maxSize / Math.max(canvas.width, canvas.height)
+    if (scale >= 1) return canvas
+
+    return this.resizeManager.resample(
+      canvas,
+      Math.max(1, Math.round(canvas.width * scale)),
+      Math.max(1, Math.round(canvas.height * scale))
+    )
+  }
+
+  // Transform and filters without crop or resize, so the crop overlay still has the whole image.
+  // The crop becomes the filters' frame, and scale converts output pixels into preview pixels.
+  renderPreview(
+    source: RenderSource,
+    options: Pick<RenderOptions, 'transform' | 'crop' | 'filters'>,
+    scale: number
+  ): RenderCanvas {
+    const canvas = this.transformManager.isIdentity(options.transform)
+      ? this.copy(source)
+      : this.transformManager.apply(source, options.transform)
+    const ctx = getContext2d(canvas)
+    const { crop } = options
+
+    const view: FilterView = { scale }
+    if (crop.enabled) {
+      view.frame = {
+        x: Math.round((crop.x / 100) * canvas.width),
+        y: Math.round((crop.y / 100) * canvas.height),
+        width: Math.max(1, Math.round((crop.width / 100) * canvas.width)),
+        height: Math.max(1, Math.round((crop.height / 100) * canvas.height))
+      }
+    }
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    this.filterManager.applyToImageData(imageData, options.filters, view)
+    ctx.putImageData(imageData, 0, 0)
+
+    return canvas
+  }
+
+  getOutputSize(
+    source: RenderSource,
+    options: Pick<RenderOptions, 'transform' | 'crop' | 'resize'>
+  ): { width: number; height: number } {
+    const { width, height } = this.getCroppedSize(source, options)
+    const plan = this.resizeManager.getResizePlan(width, height, options.resize)
+    return { width: plan.width, height: plan.height }
+  }
+
+  getCroppedSize(source: RenderSource, options: Pick<RenderOptions, 'transform' | 'crop'>): { width: number; height: number } {
+    const { crop } = options
+    const { width, height } = this.getTransformedSize(source, options.transform)
+    if (!crop.enabled) return { width, height }
+
+    return {
+      width: Math.max(1, Math.round((crop.width / 100) * width)),
+      height: Math.max(1, Math.round((crop.height / 100) * height))
+    }
+  }
+
+  getTransformedSize(source: RenderSource, transform: TransformSettings): { width: number; height: number } {
+    const { width, height } = this.getSourceSize(source)
+    return this.transformManager.getTransformedSize(width, height, transform)
+  }
+
+  getSourceSize(source: RenderSource): { width: number; height: number } {
+    return getSourceSize(source)
+  }
+
+  private crop(source: RenderSource, crop: CropSettings): RenderCanvas {
+    if (!crop.enabled) return this.copy(source)
+
+    const { width: sourceWidth, height: sourceHeight } = this.getSourceSize(source)
+
+    // Snap the percentage rectangle to whole source pixels
+    const cropX = Math.round((crop.x / 100) * sourceWidth)
+    const cropY = Math.round((crop.y / 100) * sourceHeight)
+    const cropWidth = Math.max(1, Math.min(sourceWidth - cropX, Math.round((crop.width / 100) * sourceWidth)))
+    const cropHeight = Math.max(1, Math.min(sourceHeight - cropY, Math.round((crop.height / 100) * sourceHeight)))
+
+    const canvas = createCanvas(cropWidth, cropHeight)
+    getContext2d(canvas).drawImage(
+      source,
+      cropX, cropY, cropWidth, cropHeight,
+      0, 0, cropWidth, cropHeight
+    )
+
+    return canvas
+  }
+
+  private copy(source: RenderSource): RenderCanvas {
+    const { width, height } = getSourceSize(source)
+    const canvas = createCanvas(width, height)
+    getContext2d(canvas).drawImage(source, 0, 0)
+    return canvas
+  }
+}
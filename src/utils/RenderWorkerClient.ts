@@ -0,0 +1,186 @@
+import { CompressionOptions, CompressionResult, TargetSizeError, TargetSizeResult } from './CompressionManager'
+import { EditState } from './EditStack'
+import { FilterOptions } from './FilterManager'
+import { HistogramData } from './HistogramAnalyzer'
+import { IconPackOptions, IconPackResult } from './IconPackGenerator'
+import { CubeLut } from './LutManager'
+import { CanvasSource } from './canvas'
+
+interface RenderJobBase {
+  id: number
+  sourceId: number
+  state: EditState
+}
+
+export interface ExportJob extends RenderJobBase {
+  kind: 'export'
+  compression: CompressionOptions
+  originalSize: number
+  // Searches for the best quality under a byte budget instead of encoding once
+  target?: { targetSize: number; allowResize: boolean }
+  histogram: boolean
+  // When set, the image is also rendered with these filters for the before/after view
+  beforeFilters?: FilterOptions
+}
+
+// Renders the edit and builds a favicon / app-icon pack from it
+export interface IconPackJob extends RenderJobBase {
+  kind: 'icons'
+  options: IconPackOptions
+}
+
+export type RenderJob = ExportJob | IconPackJob
+
+type NewJob = Omit<ExportJob, 'id' | 'sourceId'> | Omit<IconPackJob, 'id' | 'sourceId'>
+
+export interface RenderJobResult {
+  result: CompressionResult | TargetSizeResult
+  width: number
+  height: number
+  histogram: HistogramData | null
+  before: ImageBitmap | null
+}
+
+export type RenderWorkerRequest =
+  | { type: 'source'; sourceId: number; bitmap: ImageBitmap }
+  | { type: 'luts'; luts: CubeLut[] }
+  | { type: 'job'; job: RenderJob }
+  | { type: 'cancel' }
+
+export type RenderWorkerResponse =
+  | { type: 'progress'; id: number; percent: number }
+  | { type: 'done'; id: number; result: RenderJobResult | IconPackResult }
+  | { type: 'cancelled'; id: number }
+  // Errors cross the worker boundary as plain data, so a missed target size is flagged explicitly
+  | { type: 'error'; id: number; message: string; targetSizeMissed: boolean }
+
+interface PendingJob {
+  resolve: (result: RenderJobResult | IconPackResult | null) => void
+  reject: (error: Error) => void
+  onProgress?: (percent: number) => void
+}
+
+// Runs render + encode jobs in a worker so the popup stays responsive on large photos.
+// Only the latest job matters: starting one supersedes the rest, which resolve to null.
+// Callers that must not cancel each other, e.g. the preview and a batch, use their own client.
+export class RenderWorkerClient {
+  private worker: Worker | null = null
+  private nextJobId = 1
+  private sourceId = 0
+  // Jobs wait for the bitmap of the current image to be posted first
+  private sourceReady: Promise<void> = Promise.resolve()
+  private pending = new Map<number, PendingJob>()
+  // Kept so a worker restarted after a crash can be given the image and LUTs again
+  private source: CanvasSource | null = null
+  private luts: CubeLut[] = []
+
+  // Rejects if the image can't be turned into a bitmap for the worker
+  setSource(source: CanvasSource): Promise<void> {
+    this.source = source
+    this.cancel()
+    return this.postSource(source)
+  }
+
+  // A worker that hasn't started yet gets them when it does
+  setLuts(luts: CubeLut[]): void {
+    this.luts = luts
+    if (this.worker) this.post({ type: 'luts', luts })
+  }
+
+  run(
+    job: Omit<ExportJob, 'id' | 'sourceId' | 'kind'>,
+    onProgress?: (percent: number) => void
+  ): Promise<RenderJobResult | null> {
+    return this.submit({ ...job, kind: 'export' }, onProgress) as Promise<RenderJobResult | null>
+  }
+
+  generateIcons(state: EditState, options: IconPackOptions): Promise<IconPackResult | null> {
+    return this.submit({ kind: 'icons', state, options }) as Promise<IconPackResult | null>
+  }
+
+  // Drops the running and queued jobs, e.g. when the image is closed
+  cancel(): void {
+    this.settleAll()
+    if (this.worker) this.post({ type: 'cancel' })
+  }
+
+  private async submit(
+    job: NewJob,
+    onProgress?: (percent: number) => void
+  ): Promise<RenderJobResult | IconPackResult | null> {
+    const id = this.nextJobId++
+    this.settleAll()
+    if (!this.worker && this.source) this.postSource(this.source).catch(() => undefined)
+    await this.sourceReady
+
+    // A newer job may have started while the source was being prepared
+    if (id !== this.nextJobId - 1) return null
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress })
+      this.post({ type: 'job', job: { ...job, id, sourceId: this.sourceId } })
+    })
+  }
+
+  private settleAll(): void {
+    this.pending.forEach(job => job.resolve(null))
+    this.pending.clear()
+  }
+
+  private postSource(source: CanvasSource): Promise<void> {
+    const sourceId = ++this.sourceId
+    const ready = createImageBitmap(source).then(bitmap => {
+      this.post({ type: 'source', sourceId, bitmap }, [bitmap])
+    })
+    // Jobs still run after a failure and are rejected by the worker, which has no image for them
+    this.sourceReady = ready.catch(() => undefined)
+    return ready
+  }
+
+  private post(message: RenderWorkerRequest, transfer: Transferable[] = []): void {
+    this.getWorker().postMessage(message, transfer)
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('../workers/render.worker.ts', import.meta.url), { type: 'module' })
+      worker.addEventListener('message', (e: MessageEvent<RenderWorkerResponse>) => this.handleMessage(e.data))
+      // A crashed worker is dropped; the next job starts a fresh one and sends it the image again
+      worker.addEventListener('error', (e) => {
+        console.error('Render worker error:', e.message)
+        worker.terminate()
+        if (this.worker === worker) this.worker = null
+        this.pending.forEach(job => job.reject(new Error('Image processing stopped unexpectedly')))
+        this.pending.clear()
+      })
+      if (this.luts.length > 0) {
+        const message: RenderWorkerRequest = { type: 'luts', luts: this.luts }
+        worker.postMessage(message)
+      }
+      this.worker = worker
+    }
+    return this.worker
+  }
+
+  private handleMessage(message: RenderWorkerResponse): void {
+    const job = this.pending.get(message.id)
+    // Messages for superseded jobs are ignored; their promises already resolved to null
+    if (!job) return
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.percent)
+        return
+      case 'done':
+        job.resolve(message.result)
+        break
+      case 'cancelled':
+        job.resolve(null)
+        break
+      case 'error':
+        job.reject(message.targetSizeMissed ? new TargetSizeError(message.message) : new Error(message.message))
+        break
+    }
+    this.pending.delete(message.id)
+  }
+}
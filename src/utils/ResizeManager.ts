@@ -0,0 +1,234 @@
+import { RenderCanvas, createCanvas, getContext2d } from './canvas'
+
+export type ResizeMode = 'none' | 'exact' | 'fit' | 'fill' | 'percent' | 'longEdge'
+
+export interface ResizeOptions {
+  mode: ResizeMode
+  width: number
+  height: number
+  percent: number
+  longEdge: number
+  maintainAspectRatio: boolean
+}
+
+export interface ResizePlan {
+  width: number
+  height: number
+  // Source region to sample from, used by 'fill' to crop the overflow
+  sourceX: number
+  sourceY: number
+  sourceWidth: number
+  sourceHeight: number
+}
+
+export class ResizeManager {
+  private readonly lobes = 3
+
+  getResizePlan(sourceWidth: number, sourceHeight: number, options: ResizeOptions): ResizePlan {
+    const plan: ResizePlan = {
+      width: sourceWidth,
+      height: sourceHeight,
+      sourceX: 0,
+      sourceY: 0,
+      sourceWidth,
+      sourceHeight
+    }
+    const ratio = sourceWidth / sourceHeight
+    // Empty or cleared fields fall back to the source size instead of dividing by zero
+    const width = this.isSize(options.width) ? options.width : sourceWidth
+    const height = this.isSize(options.height) ? options.height : sourceHeight
+
+    switch (options.mode) {
+      case 'exact':
+        plan.width = width
+        plan.height = options.maintainAspectRatio ? width / ratio : height
+        break
+      case 'fit': {
+        // Scale until the image touches the box on one side
+        const scale = Math.min(width / sourceWidth, height / sourceHeight)
+        plan.width = sourceWidth * scale
+        plan.height = sourceHeight * scale
+        break
+      }
+      case 'fill': {
+        // Cover the box, then crop the overflow evenly from both sides
+        const targetRatio = width / height
+        plan.width = width
+        plan.height = height
+        if (ratio > targetRatio) {
+          plan.sourceWidth = sourceHeight * targetRatio
+          plan.sourceX = (sourceWidth - plan.sourceWidth) / 2
+        } else {
+          plan.sourceHeight = sourceWidth / targetRatio
+          plan.sourceY = (sourceHeight - plan.sourceHeight) / 2
+        }
+        break
+      }
+      case 'percent':
+        if (!this.isSize(options.percent)) break
+        plan.width = sourceWidth * (options.percent / 100)
+        plan.height = sourceHeight * (options.percent / 100)
+        break
+      case 'longEdge': {
+        if (!this.isSize(options.longEdge)) break
+        const scale = Math.min(1, options.longEdge / Math.max(sourceWidth, sourceHeight))
+        plan.width = sourceWidth * scale
+        plan.height = sourceHeight * scale
+        break
+      }
+    }
+
+    plan.width = Math.max(1, Math.round(plan.width || sourceWidth))
+    plan.height = Math.max(1, Math.round(plan.height || sourceHeight))
+    plan.sourceX = Math.round(plan.sourceX)
+    plan.sourceY = Math.round(plan.sourceY)
+    plan.sourceWidth = Math.max(1, Math.round(plan.sourceWidth))
+    plan.sourceHeight = Math.max(1, Math.round(plan.sourceHeight))
+
+    return plan
+  }
+
+  resize(source: RenderCanvas, options: ResizeOptions): RenderCanvas {
+    const plan = this.getResizePlan(source.width, source.height, options)
+    const isCropped = plan.sourceWidth !== source.width || plan.sourceHeight !== source.height
+
+    if (!isCropped && plan.width === source.width && plan.height === source.height) {
+      return source
+    }
+
+    let canvas = source
+    if (isCropped) {
+      canvas = createCanvas(plan.sourceWidth, plan.sourceHeight)
+      getContext2d(canvas).drawImage(
+        source,
+        plan.sourceX, plan.sourceY, plan.sourceWidth, plan.sourceHeight,
+        0, 0, plan.sourceWidth, plan.sourceHeight
+      )
+    }
+
+    return this.resample(canvas, plan.width, plan.height)
+  }
+
+  // High-quality resize: halve with the browser first for large reductions, then finish with Lanczos
+  resample(source: RenderCanvas, width: number, height: number): RenderCanvas {
+    let current = source
+    while (current.width / 2 >= width * 2 && current.height / 2 >= height * 2) {
+      current = this.halve(current)
+    }
+
+    const input = getContext2d(current).getImageData(0, 0, current.width, current.height)
+    const output = this.lanczos(input, width, height)
+
+    const canvas = createCanvas(width, height)
+    getContext2d(canvas).putImageData(output, 0, 0)
+    return canvas
+  }
+
+  private halve(source: RenderCanvas): RenderCanvas {
+    const canvas = createCanvas(Math.max(1, Math.floor(source.width / 2)), Math.max(1, Math.floor(source.height / 2)))
+
+    const ctx = getContext2d(canvas)
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+    return canvas
+  }
+
+  private lanczos(input: ImageData, width: number, height: number): ImageData {
+    const { width: sourceWidth, height: sourceHeight, data } = input
+
+    // Work in premultiplied alpha so transparent edges don't bleed dark fringes
+    const premultiplied = new Float32Array(data.length)
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3] / 255
+      premultiplied[i] = data[i] * alpha
+      premultiplied[i + 1] = data[i + 1] * alpha
+      premultiplied[i + 2] = data[i + 2] * alpha
+      premultiplied[i + 3] = data[i + 3]
+    }
+
+    const horizontal = this.resampleAxis(premultiplied, sourceWidth, sourceHeight, width, true)
+    const vertical = this.resampleAxis(horizontal, width, sourceHeight, height, false)
+
+    const output = new ImageData(width, height)
+    for (let i = 0; i < output.data.length; i += 4) {
+      const alpha = vertical[i + 3]
+      const scale = alpha > 0 ? 255 / alpha : 0
+      output.data[i] = vertical[i] * scale
+      output.data[i + 1] = vertical[i + 1] * scale
+      output.data[i + 2] = vertical[i + 2] * scale
+      output.data[i + 3] = alpha
+    }
+
+    return output
+  }
+
+  // Resamples one axis; the other axis keeps its size
+  private resampleAxis(
+    source: Float32Array,
+    sourceWidth: number,
+    sourceHeight: number,
+    targetSize: number,
+    horizontal: boolean
+  ): Float32Array {
+    const sourceSize = horizontal ? sourceWidth : sourceHeight
+    const lineCount = horizontal ? sourceHeight : sourceWidth
+    const targetWidth = horizontal ? targetSize : sourceWidth
+    const target = new Float32Array(targetWidth * (horizontal ? sourceHeight : targetSize) * 4)
+
+    const scale = targetSize / sourceSize
+    // Widen the kernel when shrinking so every source pixel contributes
+    const filterScale = Math.min(1, scale)
+    const support = this.lobes / filterScale
+
+    for (let t = 0; t < targetSize; t++) {
+      const center = (t + 0.5) / scale - 0.5
+      const start = Math.max(0, Math.ceil(center - support))
+      const end = Math.min(sourceSize - 1, Math.floor(center + support))
+
+      const weights: number[] = []
+      let total = 0
+      for (let s = start; s <= end; s++) {
+        const weight = this.lanczosKernel((s - center) * filterScale)
+        weights.push(weight)
+        total += weight
+      }
+
+      for (let line = 0; line < lineCount; line++) {
+        let r = 0
+        let g = 0
+        let b = 0
+        let a = 0
+
+        for (let s = start; s <= end; s++) {
+          const weight = weights[s - start]
+          const index = (horizontal ? line * sourceWidth + s : s * sourceWidth + line) * 4
+          r += source[index] * weight
+          g += source[index + 1] * weight
+          b += source[index + 2] * weight
+          a += source[index + 3] * weight
+        }
+
+        const out = (horizontal ? line * targetWidth + t : t * targetWidth + line) * 4
+        target[out] = Math.max(0, r / total)
+        target[out + 1] = Math.max(0, g / total)
+        target[out + 2] = Math.max(0, b / total)
+        target[out + 3] = Math.min(255, Math.max(0, a / total))
+      }
+    }
+
+    return target
+  }
+
+  private isSize(value: number): boolean {
+    return Number.isFinite(value) && value > 0
+  }
+
+  private lanczosKernel(x: number): number {
+    if (x === 0) return 1
+    if (x <= -this.lobes || x >= this.lobes) return 0
+
+    const px = Math.PI * x
+    return (this.lobes * Math.sin(px) * Math.sin(px / this.lobes)) / (px * px)
+  }
+}
@@ -0,0 +1,163 @@
+import { ExtensionStorage } from './ExtensionStorage'
+
+export interface ShortcutDefinition {
+  id: string
+  label: string
+  // Combos such as 'Ctrl+Shift+Z'; the first one is shown in the drawer
+  defaultKeys: string[]
+  handler: () => void
+  // Whether holding the keys keeps firing the handler; off so a held key doesn't e.g. queue downloads
+  repeatable?: boolean
+  // Checked before the keys are claimed, so e.g. the arrow keys still scroll when there is no crop box
+  isActive?: () => boolean
+}
+
+export interface Shortcut {
+  id: string
+  label: string
+  keys: string[]
+  isDefault: boolean
+}
+
+// Popup-wide key bindings. Global ones that work outside the popup live in manifest.json commands.
+export class ShortcutManager {
+  private readonly storageKey = 'solanam-shortcuts'
+  private readonly storage = new ExtensionStorage('sync')
+  private readonly modifierKeys = ['Control', 'Alt', 'Shift', 'Meta']
+  private definitions: ShortcutDefinition[] = []
+  private overrides: Record<string, string[]> = {}
+
+  // The defaults apply until the saved bindings have loaded
+  async load(): Promise<void> {
+    let stored = await this.storage.get<unknown>(this.storageKey)
+
+    // Bindings used to live in the popup's localStorage; carry them over once
+    if (this.storage.isExtensionStorage()) {
+      const legacy = localStorage.getItem(this.storageKey)
+      if (legacy) {
+        localStorage.removeItem(this.storageKey)
+        try {
+          stored = stored ?? JSON.parse(legacy)
+        } catch {
+          // A corrupt entry just means the defaults apply
+        }
+      }
+    }
+
+    this.overrides = this.sanitize(stored)
+  }
+
+  register(definition: ShortcutDefinition): void {
+    this.definitions.push({
+      ...definition,
+      defaultKeys: definition.defaultKeys.map(keys => this.normalize(keys))
+    })
+  }
+
+  getShortcuts(): Shortcut[] {
+    return this.definitions.map(definition => ({
+      id: definition.id,
+      label: definition.label,
+      keys: this.getKeys(definition),
+      isDefault: !this.overrides[definition.id]
+    }))
+  }
+
+  // Returns true when the event ran a shortcut
+  handleKeydown(e: KeyboardEvent): boolean {
+    if (e.defaultPrevented || this.isEditable(e.target)) return false
+
+    const combo = this.fromEvent(e)
+    if (!combo) return false
+
+    const definition = this.definitions.find(item =>
+      this.getKeys(item).includes(combo) && (item.isActive?.() ?? true)
+    )
+    if (!definition) return false
+
+    e.preventDefault()
+    if (e.repeat && !definition.repeatable) return true
+    definition.handler()
+    return true
+  }
+
+  async rebind(id: string, keys: string): Promise<void> {
+    const combo = this.normalize(keys)
+    const conflict = this.definitions.find(item => item.id !== id && this.getKeys(item).includes(combo))
+    if (conflict) {
+      throw new Error(`${combo} is already used by ${conflict.label}`)
+    }
+
+    const definition = this.definitions.find(item => item.id === id)
+    if (!definition) {
+      throw new Error(`Unknown shortcut: ${id}`)
+    }
+
+    if (definition.defaultKeys.length === 1 && definition.defaultKeys[0] === combo) {
+      delete this.overrides[id]
+    } else {
+      this.overrides[id] = [combo]
+    }
+    await this.save()
+  }
+
+  async resetBindings(): Promise<void> {
+    this.overrides = {}
+    await this.save()
+  }
+
+  // Turns a key event into a combo string, or null while only modifiers are held
+  fromEvent(e: KeyboardEvent): string | null {
+    if (this.modifierKeys.includes(e.key)) return null
+
+    const parts: string[] = []
+    // Cmd on macOS plays the role of Ctrl
+    if (e.ctrlKey || e.metaKey) parts.push('Ctrl')
+    if (e.altKey) parts.push('Alt')
+    if (e.shiftKey) parts.push('Shift')
+    parts.push(this.getKeyName(e))
+    return parts.join('+')
+  }
+
+  private getKeys(definition: ShortcutDefinition): string[] {
+    return this.overrides[definition.id] || definition.defaultKeys
+  }
+
+  private normalize(keys: string): string {
+    const parts = keys.split('+').map(part => part.trim())
+    const key = parts.pop() || ''
+    const modifiers = ['Ctrl', 'Alt', 'Shift'].filter(modifier =>
+      parts.some(part => part.toLowerCase() === modifier.toLowerCase() || (modifier === 'Ctrl' && /^(cmd|meta)$/i.test(part)))
+    )
+    return [...modifiers, key.length === 1 ? key.toUpperCase() : key].join('+')
+  }
+
+  // Physical key for letters and digits so Alt and Shift don't change the name (e.g. Alt+S on macOS)
+  private getKeyName(e: KeyboardEvent): string {
+    if (/^Key[A-Z]$/.test(e.code)) return e.code.slice(3)
+    if (/^Digit[0-9]$/.test(e.code)) return e.code.slice(5)
+    return e.key.length === 1 ? e.key.toUpperCase() : e.key
+  }
+
+  private isEditable(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false
+    return target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement ||
+      target.isContentEditable
+  }
+
+  // Keeps only id -> combo list entries; anything else falls back to the defaults
+  private sanitize(stored: unknown): Record<string, string[]> {
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {}
+    return Object.fromEntries(
+      Object.entries(stored).filter((entry): entry is [string, string[]] =>
+        Array.isArray(entry[1]) && entry[1].length > 0 && entry[1].every(keys => typeof keys === 'string')
+      )
+    )
+  }
+
+  private async save(): Promise<void> {
+    await this.storage.set({ [this.storageKey]: this.overrides })
+  }
+}
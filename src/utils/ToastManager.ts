@@ -1,5 +1,8 @@
+import { NotificationLevel } from './PreferencesManager'
+
 export class ToastManager {
   private container: HTMLElement | null = null
+  private level: NotificationLevel = 'all'
 
   constructor() {
     this.createContainer()
@@ -18,8 +21,13 @@ export class ToastManager {
     document.body.appendChild(this.container)
   }
 
+  setLevel(level: NotificationLevel): void {
+    this.level = level
+  }
+
   private showToast(message: string, type: 'success' | 'error' | 'info' = 'info'): void {
     if (!this.container) return
+    if (this.level === 'off' || (this.level === 'errors' && type !== 'error')) return
 
     const toast = document.createElement('div')
     toast.className = `toast toast-${type}`
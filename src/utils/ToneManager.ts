@@ -0,0 +1,164 @@
+export type ToneChannel = 'rgb' | 'red' | 'green' | 'blue'
+
+export const TONE_CHANNELS: ToneChannel[] = ['rgb', 'red', 'green', 'blue']
+
+// Input levels on the 0-255 scale; gamma above 1 brightens the midtones
+export interface LevelsChannel {
+  black: number
+  gamma: number
+  white: number
+}
+
+export type LevelsSettings = Record<ToneChannel, LevelsChannel>
+
+export interface CurvePoint {
+  x: number
+  y: number
+}
+
+// Points sorted by x, always including one at each end of the range
+export type CurvesSettings = Record<ToneChannel, CurvePoint[]>
+
+export interface ToneLuts {
+  red: Uint8Array
+  green: Uint8Array
+  blue: Uint8Array
+}
+
+export class ToneManager {
+  readonly minGamma = 0.1
+  readonly maxGamma = 9.99
+  readonly maxCurvePoints = 12
+
+  getDefaultLevels(): LevelsSettings {
+    const levels = {} as LevelsSettings
+    TONE_CHANNELS.forEach(channel => {
+      levels[channel] = { black: 0, gamma: 1, white: 255 }
+    })
+    return levels
+  }
+
+  getDefaultCurves(): CurvesSettings {
+    const curves = {} as CurvesSettings
+    TONE_CHANNELS.forEach(channel => {
+      curves[channel] = [{ x: 0, y: 0 }, { x: 255, y: 255 }]
+    })
+    return curves
+  }
+
+  isIdentity(levels: LevelsSettings, curves: CurvesSettings): boolean {
+    return TONE_CHANNELS.every(channel => {
+      const { black, gamma, white } = levels[channel]
+      const points = curves[channel]
+      return black === 0 && gamma === 1 && white === 255 && points.every(point => point.x === point.y)
+    })
+  }
+
+  // Each channel runs through its own levels, the RGB levels, its own curve and then the RGB curve
+  buildLuts(levels: LevelsSettings, curves: CurvesSettings): ToneLuts {
+    const rgbCurve = this.getCurveTable(curves.rgb)
+    const build = (channel: Exclude<ToneChannel, 'rgb'>) => {
+      const curve = this.getCurveTable(curves[channel])
+      const lut = new Uint8Array(256)
+      for (let value = 0; value < 256; value++) {
+        const leveled = this.applyLevels(this.applyLevels(value, levels[channel]), levels.rgb)
+        lut[value] = Math.round(this.lookup(rgbCurve, this.lookup(curve, leveled)))
+      }
+      return lut
+    }
+
+    return { red: build('red'), green: build('green'), blue: build('blue') }
+  }
+
+  applyToImageData(imageData: ImageData, luts: ToneLuts): void {
+    const data = imageData.data
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = luts.red[data[i]]
+      data[i + 1] = luts.green[data[i + 1]]
+      data[i + 2] = luts.blue[data[i + 2]]
+    }
+  }
+
+  // Output level for every input level, on the 0-255 scale and unrounded
+  getCurveTable(points: CurvePoint[]): Float64Array {
+    const table = new Float64Array(256)
+    const sorted = [...points].sort((a, b) => a.x - b.x)
+    const tangents = this.getTangents(sorted)
+    let segment = 0
+
+    for (let x = 0; x < 256; x++) {
+      if (x <= sorted[0].x) {
+        table[x] = sorted[0].y
+        continue
+      }
+      if (x >= sorted[sorted.length - 1].x) {
+        table[x] = sorted[sorted.length - 1].y
+        continue
+      }
+
+      while (x > sorted[segment + 1].x) segment++
+      const p0 = sorted[segment]
+      const p1 = sorted[segment + 1]
+      const h = p1.x - p0.x
+      const t = (x - p0.x) / h
+      const t2 = t * t
+      const t3 = t2 * t
+
+      // Cubic Hermite segment
+      const y = (2 * t3 - 3 * t2 + 1) * p0.y +
+        (t3 - 2 * t2 + t) * h * tangents[segment] +
+        (-2 * t3 + 3 * t2) * p1.y +
+        (t3 - t2) * h * tangents[segment + 1]
+      table[x] = Math.min(255, Math.max(0, y))
+    }
+
+    return table
+  }
+
+  private applyLevels(value: number, { black, gamma, white }: LevelsChannel): number {
+    const range = Math.max(1, white - black)
+    const normalized = Math.min(1, Math.max(0, (value - black) / range))
+    return Math.pow(normalized, 1 / gamma) * 255
+  }
+
+  // Linear between table entries, since levels produce fractional values
+  private lookup(table: Float64Array, value: number): number {
+    const index = Math.min(254, Math.floor(value))
+    const fraction = value - index
+    return table[index] + (table[index + 1] - table[index]) * fraction
+  }
+
+  // Fritsch–Carlson tangents keep the curve from overshooting between points
+  private getTangents(points: CurvePoint[]): number[] {
+    const count = points.length
+    const slopes: number[] = []
+    for (let i = 0; i < count - 1; i++) {
+      slopes.push((points[i + 1].y - points[i].y) / Math.max(1e-6, points[i + 1].x - points[i].x))
+    }
+
+    const tangents = points.map((_, i) => {
+      if (i === 0) return slopes[0]
+      if (i === count - 1) return slopes[count - 2]
+      return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2
+    })
+
+    for (let i = 0; i < count - 1; i++) {
+      if (slopes[i] === 0) {
+        tangents[i] = 0
+        tangents[i + 1] = 0
+        continue
+      }
+
+      const a = tangents[i] / slopes[i]
+      const b = tangents[i + 1] / slopes[i]
+      const length = a * a + b * b
+      if (length > 9) {
+        const scale = 3 / Math.sqrt(length)
+        tangents[i] = scale * a * slopes[i]
+        tangents[i + 1] = scale * b * slopes[i]
+      }
+    }
+
+    return tangents
+  }
+}
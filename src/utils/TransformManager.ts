@@ -0,0 +1,81 @@
+import { CropSettings } from './CropManager'
+import { CanvasSource, RenderCanvas, createCanvas, getContext2d, getSourceSize } from './canvas'
+
+export type QuarterTurn = 0 | 90 | 180 | 270
+
+export interface TransformSettings {
+  // Clockwise quarter turns applied to the source
+  rotation: QuarterTurn
+  flipHorizontal: boolean
+  flipVertical: boolean
+  // Free angle in degrees; the empty corners it creates are cropped away
+  straighten: number
+}
+
+export type TransformChange = 'rotateRight' | 'rotateLeft' | 'flipHorizontal' | 'flipVertical'
+
+export class TransformManager {
+  readonly maxStraighten = 45
+
+  isIdentity(settings: TransformSettings): boolean {
+    return settings.rotation === 0 && !settings.flipHorizontal && !settings.flipVertical && settings.straighten === 0
+  }
+
+  getTransformedSize(sourceWidth: number, sourceHeight: number, settings: TransformSettings): { width: number; height: number } {
+    const turned = settings.rotation === 90 || settings.rotation === 270
+    const width = turned ? sourceHeight : sourceWidth
+    const height = turned ? sourceWidth : sourceHeight
+    const scale = this.getStraightenScale(width, height, settings.straighten)
+
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale))
+    }
+  }
+
+  // Quarter turn first, then flips and straightening as seen in the turned image
+  apply(source: CanvasSource, settings: TransformSettings): RenderCanvas {
+    const { width: sourceWidth, height: sourceHeight } = getSourceSize(source)
+    const { width, height } = this.getTransformedSize(sourceWidth, sourceHeight, settings)
+
+    const canvas = createCanvas(width, height)
+    const ctx = getContext2d(canvas)
+    ctx.imageSmoothingQuality = 'high'
+
+    ctx.translate(width / 2, height / 2)
+    ctx.rotate((settings.straighten * Math.PI) / 180)
+    ctx.scale(settings.flipHorizontal ? -1 : 1, settings.flipVertical ? -1 : 1)
+    ctx.rotate((settings.rotation * Math.PI) / 180)
+    ctx.drawImage(source, -sourceWidth / 2, -sourceHeight / 2)
+
+    return canvas
+  }
+
+  // Quarter turns and flips keep the same region selected by moving the crop with the image
+  mapCrop(crop: CropSettings, change: TransformChange): CropSettings {
+    switch (change) {
+      case 'rotateRight':
+        return { ...crop, x: 100 - crop.y - crop.height, y: crop.x, width: crop.height, height: crop.width, aspectRatio: this.invertRatio(crop) }
+      case 'rotateLeft':
+        return { ...crop, x: crop.y, y: 100 - crop.x - crop.width, width: crop.height, height: crop.width, aspectRatio: this.invertRatio(crop) }
+      case 'flipHorizontal':
+        return { ...crop, x: 100 - crop.x - crop.width }
+      case 'flipVertical':
+        return { ...crop, y: 100 - crop.y - crop.height }
+    }
+  }
+
+  private invertRatio(crop: CropSettings): number | null {
+    return crop.aspectRatio ? 1 / crop.aspectRatio : null
+  }
+
+  // Largest rectangle with the original aspect ratio that fits inside the tilted image
+  private getStraightenScale(width: number, height: number, angle: number): number {
+    if (!angle) return 1
+
+    const radians = (Math.abs(angle) * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos))
+  }
+}
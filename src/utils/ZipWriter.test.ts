@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { ZipWriter } from './ZipWriter'
+import { crc32 } from './crc32'
+
+interface ReadEntry {
+  name: string
+  flags: number
+  crc: number
+  data: Uint8Array
+}
+
+// Walks the central directory the way unzip tools do, then reads each local entry
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+  const buffer = await blob.arrayBuffer()
+  const view = new DataView(buffer)
+  const end = buffer.byteLength - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  expect(position + view.getUint32(end + 12, true)).toBe(end)
+
+  const entries: ReadEntry[] = []
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50)
+    const nameLength = view.getUint16(position + 28, true)
+    const size = view.getUint32(position + 24, true)
+    const local = view.getUint32(position + 42, true)
+    expect(view.getUint32(local, true)).toBe(0x04034b50)
+
+    const dataStart = local + 30 + view.getUint16(local + 26, true)
+    entries.push({
+      name: new TextDecoder().decode(new Uint8Array(buffer, position + 46, nameLength)),
+      flags: view.getUint16(position + 8, true),
+      crc: view.getUint32(position + 16, true),
+      data: new Uint8Array(buffer, dataStart, size)
+    })
+    position += 46 + nameLength
+  }
+  return entries
+}
+
+describe('ZipWriter', () => {
+  it('stores strings, bytes and blobs with their checksums', async () => {
+    const zip = new ZipWriter()
+    await zip.addFile('notes.txt', 'hello')
+    await zip.addFile('raw.bin', new Uint8Array([0, 1, 2, 255]))
+    await zip.addFile('image.png', new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])]))
+
+    const entries = await readZip(zip.generate())
+    expect(entries.map(entry => entry.name)).toEqual(['notes.txt', 'raw.bin', 'image.png'])
+    expect(new TextDecoder().decode(entries[0].data)).toBe('hello')
+    expect(Array.from(entries[1].data)).toEqual([0, 1, 2, 255])
+    entries.forEach(entry => expect(entry.crc).toBe(crc32(entry.data)))
+  })
+
+  it('marks names as UTF-8', async () => {
+    const zip = new ZipWriter()
+    await zip.addFile('café-ß.txt', 'x')
+
+    const [entry] = await readZip(zip.generate())
+    expect(entry.name).toBe('café-ß.txt')
+    expect(entry.flags & 0x0800).toBe(0x0800)
+  })
+
+  it('writes the modification time as MS-DOS fields', async () => {
+    const zip = new ZipWriter()
+    await zip.addFile('a.txt', 'a', new Date(2024, 2, 15, 13, 45, 31))
+
+    const view = new DataView(await zip.generate().arrayBuffer())
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15)
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (3 << 5) | 15)
+  })
+
+  it('is an empty archive without files', async () => {
+    const zip = new ZipWriter()
+    const blob = zip.generate()
+
+    expect(blob.size).toBe(22)
+    expect(await readZip(blob)).toEqual([])
+  })
+
+  it('tracks which names are taken', async () => {
+    const zip = new ZipWriter()
+    await zip.addFile('photo.jpg', 'x')
+
+    expect(zip.hasFile('photo.jpg')).toBe(true)
+    expect(zip.hasFile('photo-2.jpg')).toBe(false)
+  })
+})
@@ -0,0 +1,90 @@
+import { crc32 } from './crc32'
+
+interface ZipEntry {
+  name: Uint8Array<ArrayBuffer>
+  data: Uint8Array<ArrayBuffer>
+  crc: number
+  time: number
+  date: number
+}
+
+// Minimal ZIP writer. Entries are stored uncompressed since images are already compressed.
+export class ZipWriter {
+  private entries: ZipEntry[] = []
+  private names = new Set<string>()
+  private readonly encoder = new TextEncoder()
+
+  async addFile(name: string, content: Blob | Uint8Array | string, modified = new Date()): Promise<void> {
+    let data: Uint8Array<ArrayBuffer>
+    if (typeof content === 'string') {
+      data = this.encoder.encode(content)
+    } else if (content instanceof Uint8Array) {
+      data = new Uint8Array(content)
+    } else {
+      data = new Uint8Array(await content.arrayBuffer())
+    }
+
+    this.names.add(name)
+    this.entries.push({
+      name: this.encoder.encode(name),
+      data,
+      crc: crc32(data),
+      // MS-DOS time and date fields
+      time: (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2),
+      date: ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()
+    })
+  }
+
+  hasFile(name: string): boolean {
+    return this.names.has(name)
+  }
+
+  generate(): Blob {
+    const parts: Uint8Array<ArrayBuffer>[] = []
+    const centralDirectory: Uint8Array<ArrayBuffer>[] = []
+    let offset = 0
+
+    this.entries.forEach(entry => {
+      const local = new DataView(new ArrayBuffer(30))
+      local.setUint32(0, 0x04034b50, true)
+      local.setUint16(4, 20, true) // version needed
+      local.setUint16(6, 0x0800, true) // names are UTF-8
+      local.setUint16(8, 0, true) // stored
+      local.setUint16(10, entry.time, true)
+      local.setUint16(12, entry.date, true)
+      local.setUint32(14, entry.crc, true)
+      local.setUint32(18, entry.data.length, true)
+      local.setUint32(22, entry.data.length, true)
+      local.setUint16(26, entry.name.length, true)
+      local.setUint16(28, 0, true)
+
+      const central = new DataView(new ArrayBuffer(46))
+      central.setUint32(0, 0x02014b50, true)
+      central.setUint16(4, 20, true) // version made by
+      central.setUint16(6, 20, true)
+      central.setUint16(8, 0x0800, true)
+      central.setUint16(10, 0, true)
+      central.setUint16(12, entry.time, true)
+      central.setUint16(14, entry.date, true)
+      central.setUint32(16, entry.crc, true)
+      central.setUint32(20, entry.data.length, true)
+      central.setUint32(24, entry.data.length, true)
+      central.setUint16(28, entry.name.length, true)
+      central.setUint32(42, offset, true)
+
+      parts.push(new Uint8Array(local.buffer), entry.name, entry.data)
+      centralDirectory.push(new Uint8Array(central.buffer), entry.name)
+      offset += 30 + entry.name.length + entry.data.length
+    })
+
+    const directorySize = centralDirectory.reduce((total, part) => total + part.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true)
+    end.setUint16(8, this.entries.length, true)
+    end.setUint16(10, this.entries.length, true)
+    end.setUint32(12, directorySize, true)
+    end.setUint32(16, offset, true)
+
+    return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' })
+  }
+}
@@ -0,0 +1,65 @@
+// The render code runs in the popup and in the render worker, which has no DOM,
+// so it works with either kind of canvas
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export type CanvasSource = HTMLImageElement | ImageBitmap | RenderCanvas
+
+export function isOffscreenCanvas(canvas: RenderCanvas): canvas is OffscreenCanvas {
+  return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+}
+
+export function createCanvas(width: number, height: number): RenderCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height)
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+export function getContext2d(canvas: RenderCanvas): RenderContext {
+  const ctx = isOffscreenCanvas(canvas) ? canvas.getContext('2d') : canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas context not available')
+  }
+  return ctx
+}
+
+export function getSourceSize(source: CanvasSource): { width: number; height: number } {
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight }
+  }
+  return { width: source.width, height: source.height }
+}
+
+export function canvasToBlob(canvas: RenderCanvas, type: string, quality?: number): Promise<Blob> {
+  if (isOffscreenCanvas(canvas)) {
+    return canvas.convertToBlob({ type, quality })
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Failed to encode image'))
+        return
+      }
+      resolve(blob)
+    }, type, quality)
+  })
+}
+
+// Popup only: gives worker output and offscreen canvases an element that can be shown
+export function toDomCanvas(source: CanvasSource): HTMLCanvasElement {
+  if (source instanceof HTMLCanvasElement) return source
+
+  const { width, height } = getSourceSize(source)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')!.drawImage(source, 0, 0)
+  return canvas
+}
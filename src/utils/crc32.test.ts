@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { crc32 } from './crc32'
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926)
+  })
+
+  it('is 0 for no data', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0)
+  })
+
+  it('continues from a previous checksum', () => {
+    expect(crc32(bytes('56789'), crc32(bytes('1234')))).toBe(crc32(bytes('123456789')))
+  })
+
+  it('covers the PNG IEND chunk type', () => {
+    expect(crc32(bytes('IEND'))).toBe(0xae426082)
+  })
+})
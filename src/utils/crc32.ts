@@ -0,0 +1,21 @@
+let table: Uint32Array | null = null
+
+// CRC-32 (IEEE 802.3) as used by ZIP archives and PNG chunks
+export function crc32(data: Uint8Array, initial = 0): number {
+  if (!table) {
+    table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      table[n] = c >>> 0
+    }
+  }
+
+  let crc = (initial ^ 0xffffffff) >>> 0
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
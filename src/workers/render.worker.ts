@@ -0,0 +1,145 @@
+import { CompressionManager, CompressionResult, TargetSizeError } from '../utils/CompressionManager'
+import { FilterManager } from '../utils/FilterManager'
+import { HistogramAnalyzer } from '../utils/HistogramAnalyzer'
+import { IconPackGenerator, IconPackResult } from '../utils/IconPackGenerator'
+import { RenderPipeline } from '../utils/RenderPipeline'
+import { ResizeManager } from '../utils/ResizeManager'
+import { TransformManager } from '../utils/TransformManager'
+import {
+  ExportJob,
+  IconPackJob,
+  RenderJob,
+  RenderJobResult,
+  RenderWorkerRequest,
+  RenderWorkerResponse
+} from '../utils/RenderWorkerClient'
+
+// Renders and encodes off the popup's main thread. Jobs run one at a time; a new job
+// aborts the running one at its next checkpoint and replaces any job still waiting.
+const filterManager = new FilterManager()
+const resizeManager = new ResizeManager()
+const renderPipeline = new RenderPipeline(filterManager, resizeManager, new TransformManager())
+const compressionManager = new CompressionManager()
+const histogramAnalyzer = new HistogramAnalyzer()
+const iconPackGenerator = new IconPackGenerator(compressionManager, resizeManager)
+
+let source: ImageBitmap | null = null
+let sourceId = 0
+let running: AbortController | null = null
+let queued: RenderJob | null = null
+
+self.addEventListener('message', (e: MessageEvent<RenderWorkerRequest>) => {
+  const message = e.data
+  switch (message.type) {
+    case 'source':
+      source?.close()
+      source = message.bitmap
+      sourceId = message.sourceId
+      break
+    case 'luts':
+      filterManager.setLuts(message.luts)
+      break
+    case 'job':
+      running?.abort()
+      if (queued) post({ type: 'cancelled', id: queued.id })
+      queued = message.job
+      if (!running) runQueued()
+      break
+    case 'cancel':
+      running?.abort()
+      if (queued) post({ type: 'cancelled', id: queued.id })
+      queued = null
+      break
+  }
+})
+
+async function runQueued(): Promise<void> {
+  while (queued) {
+    const job = queued
+    const controller = new AbortController()
+    queued = null
+    running = controller
+
+    try {
+      const result = await runJob(job, controller.signal)
+      post({ type: 'done', id: job.id, result }, 'before' in result && result.before ? [result.before] : [])
+    } catch (error) {
+      if (controller.signal.aborted) {
+        post({ type: 'cancelled', id: job.id })
+      } else {
+        post({
+          type: 'error',
+          id: job.id,
+          message: error instanceof Error ? error.message : 'Failed to process image',
+          targetSizeMissed: error instanceof TargetSizeError
+        })
+      }
+    }
+    running = null
+  }
+}
+
+async function runJob(job: RenderJob, signal: AbortSignal): Promise<RenderJobResult | IconPackResult> {
+  if (!source || job.sourceId !== sourceId) {
+    throw new Error('Image is not ready yet')
+  }
+  return job.kind === 'icons' ? runIconPack(source, job, signal) : runExport(source, job, signal)
+}
+
+async function runExport(source: ImageBitmap, job: ExportJob, signal: AbortSignal): Promise<RenderJobResult> {
+  const report = (percent: number) => post({ type: 'progress', id: job.id, percent: Math.round(percent) })
+  report(0)
+
+  const rendered = renderPipeline.render(source, job.state)
+  await checkpoint(signal)
+  report(40)
+
+  const histogram = job.histogram ? histogramAnalyzer.analyze(rendered) : null
+  let before: ImageBitmap | null = null
+  if (job.beforeFilters) {
+    await checkpoint(signal)
+    before = await createImageBitmap(renderPipeline.render(source, { ...job.state, filters: job.beforeFilters }))
+  }
+  await checkpoint(signal)
+  report(50)
+
+  let result: CompressionResult
+  let { width, height } = rendered
+  if (job.target) {
+    // The number of attempts isn't known up front, so the bar closes in on 100% instead
+    const targetResult = await compressionManager.compressToTarget(
+      rendered,
+      { ...job.compression, ...job.target },
+      job.originalSize,
+      attempts => report(100 - 50 * Math.pow(0.8, attempts)),
+      signal
+    )
+    // The search may scale the image down to fit
+    width = targetResult.width
+    height = targetResult.height
+    result = targetResult
+  } else {
+    result = await compressionManager.compressImage(rendered, job.compression, job.originalSize)
+  }
+  signal.throwIfAborted()
+
+  return { result, width, height, histogram, before }
+}
+
+async function runIconPack(source: ImageBitmap, job: IconPackJob, signal: AbortSignal): Promise<IconPackResult> {
+  const rendered = renderPipeline.render(source, job.state)
+  await checkpoint(signal)
+  const result = await iconPackGenerator.generate(rendered, job.options)
+  signal.throwIfAborted()
+  return result
+}
+
+// Yields so a newer job or a cancel can arrive between the long synchronous stages
+async function checkpoint(signal: AbortSignal): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0))
+  signal.throwIfAborted()
+}
+
+function post(message: RenderWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer })
+}